@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * CUA MCP Server CLI
+ *
+ * Runs the server outside Vercel, with background tasks executed in this
+ * process:
+ *
+ *   cua-mcp-server [stdio]                        MCP over stdin/stdout
+ *   cua-mcp-server http [--port N] [--host H]     Streamable HTTP at /mcp
+ */
+
+import { getAnthropicApiKey, type RequestContext } from "../lib/mcp-server.js";
+import { createMcpHttpServer } from "../lib/http-transport.js";
+import { serveStdio } from "../lib/stdio-transport.js";
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+
+const USAGE = `Usage:
+  cua-mcp-server [stdio]                        Serve MCP over stdin/stdout
+  cua-mcp-server http [--port N] [--host H]     Serve Streamable HTTP at /mcp
+
+Environment:
+  CUA_API_KEY            CUA Cloud API key (required for stdio)
+  ANTHROPIC_API_KEY      Anthropic API key for run_task and describe_screen
+  CUA_STORAGE            Task storage: blob, fs or memory (default: fs)
+  CUA_STORAGE_DIR        Directory for fs storage (default: .cua-data)
+  PORT, HOST             Defaults for --port and --host`;
+
+// Tasks outlive the request that started them; the process stays up
+// until they settle
+function runInBackground(task: Promise<unknown>): void {
+  task.catch((error) => {
+    console.error("[CLI] Background task failed:", error);
+  });
+}
+
+function createContext(cuaApiKey: string): RequestContext {
+  return {
+    cuaApiKey,
+    anthropicApiKey: getAnthropicApiKey(),
+    runInBackground,
+    inProcess: true,
+  };
+}
+
+// Read the value following a --flag, if present
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(args: string[]): Promise<void> {
+  const mode = args[0] && !args[0].startsWith("-") ? args[0] : "stdio";
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.error(USAGE);
+    return;
+  }
+
+  if (mode === "stdio") {
+    const cuaApiKey = process.env.CUA_API_KEY || "";
+    if (!cuaApiKey) {
+      console.error("CUA_API_KEY is required for stdio mode");
+      process.exitCode = 1;
+      return;
+    }
+    await serveStdio(createContext(cuaApiKey));
+    return;
+  }
+
+  if (mode === "http") {
+    const port = Number(getFlag(args, "--port") || process.env.PORT || DEFAULT_PORT);
+    const host = getFlag(args, "--host") || process.env.HOST || DEFAULT_HOST;
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      console.error(`Invalid port: ${port}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const server = createMcpHttpServer(createContext);
+    server.listen(port, host, () => {
+      console.log(`[CLI] MCP server listening on http://${host}:${port}/mcp`);
+    });
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.once(signal, () => {
+        server.close();
+        process.exit(0);
+      });
+    }
+    return;
+  }
+
+  console.error(`Unknown mode: ${mode}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error("[CLI] Fatal error:", error);
+  process.exit(1);
+});
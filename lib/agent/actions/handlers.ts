@@ -18,18 +18,19 @@ import {
   MAX_WAIT_MS,
 } from "../config.js";
 import { sleep } from "../utils.js";
+import { scaleScreenshot, toScreenCoordinates } from "../scaling.js";
 
 // ==========================================
 // Screenshot Actions
 // ==========================================
 
 /**
- * Capture full screen screenshot
+ * Capture full screen screenshot, scaled to the size the model sees
  */
 export async function handleScreenshot(
   _input: ActionInput,
   computer: CuaComputerClient,
-  _context: ActionContext
+  context: ActionContext
 ): Promise<ActionResult> {
   let result = await computer.screenshot();
   // Retry once on failure after delay
@@ -38,6 +39,13 @@ export async function handleScreenshot(
     result = await computer.screenshot();
   }
   if (result.success && result.base64_image) {
+    let image: string;
+    try {
+      image = scaleScreenshot(result.base64_image, context);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      return { content: `Screenshot failed: ${error}`, success: false, error };
+    }
     return {
       content: [
         {
@@ -45,7 +53,7 @@ export async function handleScreenshot(
           source: {
             type: "base64",
             media_type: "image/png",
-            data: result.base64_image,
+            data: image,
           },
         },
       ],
@@ -63,6 +71,8 @@ export async function handleScreenshot(
  * Capture zoomed region screenshot (Opus 4.5 only)
  * Takes a cropped screenshot centered on the coordinate.
  * If no coordinate is provided, defaults to screen center.
+ * On a scaled display the region covers ZOOM_REGION_WIDTH x
+ * ZOOM_REGION_HEIGHT of the model's view and is captured at full resolution.
  */
 export async function handleZoom(
   input: ActionInput,
@@ -91,33 +101,49 @@ export async function handleZoom(
     centerX = Math.floor(context.displayWidth / 2);
     centerY = Math.floor(context.displayHeight / 2);
   }
-  // Calculate region bounds, clamped to screen dimensions
-  const x = Math.max(0, Math.floor(centerX - ZOOM_REGION_WIDTH / 2));
-  const y = Math.max(0, Math.floor(centerY - ZOOM_REGION_HEIGHT / 2));
+  // Calculate region bounds in screen pixels, clamped to screen dimensions
+  const [screenX, screenY] = toScreenCoordinates(centerX, centerY, context);
+  const regionWidth = Math.min(
+    context.screenWidth,
+    Math.round((ZOOM_REGION_WIDTH * context.screenWidth) / context.displayWidth)
+  );
+  const regionHeight = Math.min(
+    context.screenHeight,
+    Math.round((ZOOM_REGION_HEIGHT * context.screenHeight) / context.displayHeight)
+  );
+  const x = Math.max(
+    0,
+    Math.min(context.screenWidth - regionWidth, Math.floor(screenX - regionWidth / 2))
+  );
+  const y = Math.max(
+    0,
+    Math.min(context.screenHeight - regionHeight, Math.floor(screenY - regionHeight / 2))
+  );
 
   // Try region screenshot first, fall back to full screenshot if not supported
-  let result = await computer.screenshotRegion(
-    x,
-    y,
-    ZOOM_REGION_WIDTH,
-    ZOOM_REGION_HEIGHT
-  );
+  let result = await computer.screenshotRegion(x, y, regionWidth, regionHeight);
 
   // Retry once on failure, then fall back to full screenshot
   if (!result.success || !result.base64_image) {
     await sleep(RETRY_DELAY_MS);
-    result = await computer.screenshotRegion(
-      x,
-      y,
-      ZOOM_REGION_WIDTH,
-      ZOOM_REGION_HEIGHT
-    );
+    result = await computer.screenshotRegion(x, y, regionWidth, regionHeight);
   }
+  let fullScreen = false;
   if (!result.success || !result.base64_image) {
     result = await computer.screenshot();
+    fullScreen = true;
   }
 
   if (result.success && result.base64_image) {
+    let image = result.base64_image;
+    if (fullScreen) {
+      try {
+        image = scaleScreenshot(image, context);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        return { content: `Zoom screenshot failed: ${error}`, success: false, error };
+      }
+    }
     return {
       content: [
         {
@@ -125,7 +151,7 @@ export async function handleZoom(
           source: {
             type: "base64",
             media_type: "image/png",
-            data: result.base64_image,
+            data: image,
           },
         },
       ],
@@ -160,7 +186,9 @@ export async function handleMouseMove(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.moveCursor(coords.x, coords.y);
+  const result = await computer.moveCursor(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Cursor moved to (${coords.x}, ${coords.y})`, success: true };
   }
@@ -187,7 +215,9 @@ export async function handleLeftClick(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.leftClick(coords.x, coords.y);
+  const result = await computer.leftClick(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Left click at (${coords.x}, ${coords.y})`, success: true };
   }
@@ -214,7 +244,9 @@ export async function handleRightClick(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.rightClick(coords.x, coords.y);
+  const result = await computer.rightClick(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Right click at (${coords.x}, ${coords.y})`, success: true };
   }
@@ -241,7 +273,9 @@ export async function handleDoubleClick(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.doubleClick(coords.x, coords.y);
+  const result = await computer.doubleClick(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Double click at (${coords.x}, ${coords.y})`, success: true };
   }
@@ -268,7 +302,9 @@ export async function handleTripleClick(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.tripleClick(coords.x, coords.y);
+  const result = await computer.tripleClick(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Triple click at (${coords.x}, ${coords.y})`, success: true };
   }
@@ -295,7 +331,9 @@ export async function handleMiddleClick(
   if (!coords.valid) {
     return { content: coords.error, success: false, error: coords.error };
   }
-  const result = await computer.middleClick(coords.x, coords.y);
+  const result = await computer.middleClick(
+    ...toScreenCoordinates(coords.x, coords.y, context)
+  );
   if (result.success) {
     return { content: `Middle click at (${coords.x}, ${coords.y})`, success: true };
   }
@@ -356,10 +394,8 @@ export async function handleLeftClickDrag(
   }
 
   const result = await computer.drag(
-    startCoord[0],
-    startCoord[1],
-    endCoord[0],
-    endCoord[1]
+    ...toScreenCoordinates(startCoord[0], startCoord[1], context),
+    ...toScreenCoordinates(endCoord[0], endCoord[1], context)
   );
   if (result.success) {
     return {
@@ -538,7 +574,9 @@ export async function handleScroll(
         error: validation.error,
       };
     }
-    const moveResult = await computer.moveCursor(x, y);
+    const moveResult = await computer.moveCursor(
+      ...toScreenCoordinates(x, y, context)
+    );
     if (!moveResult.success) {
       return {
         content: `Move cursor for scroll failed: ${moveResult.error || "Unknown error"}`,
@@ -0,0 +1,75 @@
+/**
+ * Task Checkpoints
+ *
+ * Persists agent loop state to the task store so a task can resume in a new
+ * function invocation after the current one reaches its time budget.
+ */
+
+import { getTaskStore, taskClaimsPrefix, taskRecordPath } from "../storage/index.js";
+import type { TaskCheckpoint } from "./types.js";
+
+/**
+ * Save a checkpoint, overwriting any previous one for the task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param checkpoint - Serialized loop state
+ */
+export async function saveCheckpoint(
+  tenantId: string,
+  checkpoint: TaskCheckpoint
+): Promise<void> {
+  await getTaskStore().putJson(
+    taskRecordPath(tenantId, "checkpoints", checkpoint.task_id),
+    checkpoint
+  );
+}
+
+/**
+ * Load the latest checkpoint for a task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @returns The checkpoint, or null if none exists
+ */
+export async function loadCheckpoint(
+  tenantId: string,
+  taskId: string
+): Promise<TaskCheckpoint | null> {
+  return getTaskStore().getJson<TaskCheckpoint>(
+    taskRecordPath(tenantId, "checkpoints", taskId)
+  );
+}
+
+/**
+ * Claim a checkpoint for one invocation so a replayed or duplicated
+ * continuation can't start a second copy of the loop. The claim is a
+ * create-only record per invocation, so concurrent deliveries can't both
+ * succeed.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param checkpoint - Checkpoint being resumed
+ * @returns True if this caller holds the claim
+ */
+export async function claimCheckpoint(
+  tenantId: string,
+  checkpoint: TaskCheckpoint
+): Promise<boolean> {
+  return getTaskStore().createJson(
+    `${taskClaimsPrefix(tenantId, checkpoint.task_id)}${checkpoint.invocation}.json`,
+    { claimed_at: Date.now() }
+  );
+}
+
+/**
+ * Delete the checkpoint for a finished task
+ * Missing checkpoints are ignored.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ */
+export async function deleteCheckpoint(
+  tenantId: string,
+  taskId: string
+): Promise<void> {
+  await getTaskStore().delete(taskRecordPath(tenantId, "checkpoints", taskId));
+}
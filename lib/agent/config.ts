@@ -38,14 +38,72 @@ export const DEFAULT_MAX_STEPS = 100;
 // Context Management
 // ============================================
 
+/** Default number of most recent screenshots kept in the message history */
+export const DEFAULT_KEEP_SCREENSHOTS = 3;
+
+/**
+ * Extra screenshots allowed to build up before older ones are stripped.
+ * Stripping rewrites the start of the history, which invalidates the prompt
+ * cache, so screenshots are stripped in batches rather than one per turn.
+ */
+export const SCREENSHOT_OMIT_BATCH = 3;
+
+/**
+ * Default estimated token limit for the message history. Once older
+ * screenshots are stripped, the history is mostly text and this is rarely
+ * reached; past it, more screenshots are stripped and, as a last resort,
+ * the oldest exchanges are dropped.
+ */
+export const DEFAULT_CONTEXT_TOKEN_LIMIT = 100_000;
+
+/** Characters per token used when estimating the size of text */
+export const CHARS_PER_TOKEN_ESTIMATE = 4;
+
+/** Pixels per token used when estimating the size of an image */
+export const PIXELS_PER_IMAGE_TOKEN = 750;
+
+/** Text that replaces a screenshot stripped from the message history */
+export const OMITTED_SCREENSHOT_TEXT = "[screenshot omitted]";
+
+/** Maximum output tokens of the request that summarizes dropped exchanges */
+export const TASK_MEMORY_MAX_TOKENS = 1024;
+
+/** Maximum length of the task memory when it cannot be summarized */
+export const TASK_MEMORY_FALLBACK_MAX_LENGTH = 4000;
+
+/** Maximum length of one text entry in a dropped-exchange transcript */
+export const TASK_MEMORY_ENTRY_MAX_LENGTH = 500;
+
+/**
+ * Get the number of most recent screenshots kept in the message history.
+ * Older screenshots are replaced with OMITTED_SCREENSHOT_TEXT; the text
+ * and actions around them are kept.
+ * Configurable via CUA_KEEP_SCREENSHOTS
+ */
+export function getKeepScreenshots(): number {
+  const configured = Number(process.env.CUA_KEEP_SCREENSHOTS);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_KEEP_SCREENSHOTS;
+}
+
+/**
+ * Get the estimated token limit for the message history
+ * Configurable via CUA_CONTEXT_TOKEN_LIMIT
+ */
+export function getContextTokenLimit(): number {
+  const configured = Number(process.env.CUA_CONTEXT_TOKEN_LIMIT);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_CONTEXT_TOKEN_LIMIT;
+}
+
 /**
- * Maximum number of message exchanges to keep in history.
- * Each exchange = assistant response + user tool results.
- * Older exchanges are trimmed to prevent context bloat from accumulated screenshots.
- * With 20 exchanges, we keep ~40 messages which allows for sufficient context
- * while limiting token usage from base64 images (~30KB each, ~400 tokens).
+ * Prompt cache breakpoints placed on the most recent user turns when the
+ * model has prompt caching enabled. The system prompt and tool definition
+ * take the other two of the four breakpoints a request may carry.
  */
-export const MAX_MESSAGE_HISTORY = 20;
+export const PROMPT_CACHE_MESSAGE_BREAKPOINTS = 2;
 
 /** Hard maximum steps - client cannot exceed this */
 export const MAX_STEPS_LIMIT = 100;
@@ -56,6 +114,82 @@ export const DEFAULT_TIMEOUT_SECONDS = 750;
 /** Hard maximum timeout - must be below Vercel's maxDuration (800s) */
 export const MAX_TIMEOUT_SECONDS = 750;
 
+// ============================================
+// Resumable Tasks (checkpoint & continuation)
+// ============================================
+
+/** Default hard maximum timeout for resumable tasks (4 hours) */
+export const DEFAULT_MAX_RESUMABLE_TIMEOUT_SECONDS = 4 * 60 * 60;
+
+/**
+ * Time one invocation may run before checkpointing and handing off.
+ * Leaves headroom below Vercel's maxDuration (800s) for an in-flight
+ * Anthropic request with retries.
+ */
+export const INVOCATION_BUDGET_SECONDS = 660;
+
+/** Agent loop iterations between periodic checkpoints */
+export const CHECKPOINT_INTERVAL_ITERATIONS = 10;
+
+/**
+ * Get the hard maximum timeout for resumable tasks
+ * Configurable via CUA_MAX_TASK_SECONDS
+ */
+export function getMaxResumableTimeoutSeconds(): number {
+  const configured = Number(process.env.CUA_MAX_TASK_SECONDS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_MAX_RESUMABLE_TIMEOUT_SECONDS;
+}
+
+// ============================================
+// Retention
+// ============================================
+
+/** Days finished tasks are kept when no policy applies */
+export const DEFAULT_RETENTION_DAYS = 30;
+
+/** Minimum time between automatic retention sweeps for a tenant (6 hours) */
+export const RETENTION_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Days to keep finished tasks, by final status
+ * A null value keeps tasks with that status forever.
+ */
+export type RetentionPolicy = Partial<
+  Record<"default" | "completed" | "failed" | "timeout" | "cancelled", number | null>
+>;
+
+/**
+ * Get the retention policy for a tenant
+ * Configurable via CUA_RETENTION_DAYS (default for all statuses) and
+ * CUA_RETENTION_POLICY, a JSON object of per-status days with optional
+ * per-tenant overrides:
+ *
+ *   {"failed": 7, "tenants": {"<tenant_id>": {"default": 90}}}
+ */
+export function getRetentionPolicy(tenantId: string): RetentionPolicy {
+  const configuredDays = Number(process.env.CUA_RETENTION_DAYS);
+  const policy: RetentionPolicy = {
+    default:
+      Number.isFinite(configuredDays) && configuredDays > 0
+        ? configuredDays
+        : DEFAULT_RETENTION_DAYS,
+  };
+  if (!process.env.CUA_RETENTION_POLICY) {
+    return policy;
+  }
+
+  try {
+    const { tenants, ...global } = JSON.parse(process.env.CUA_RETENTION_POLICY) as
+      RetentionPolicy & { tenants?: Record<string, RetentionPolicy> };
+    return { ...policy, ...global, ...tenants?.[tenantId] };
+  } catch {
+    console.warn("[Agent] Ignoring invalid CUA_RETENTION_POLICY (expected JSON)");
+    return policy;
+  }
+}
+
 // ============================================
 // Validation Constants
 // ============================================
@@ -66,6 +200,122 @@ export const SANDBOX_NAME_MAX_LENGTH = 64;
 /** Maximum length for task IDs */
 export const TASK_ID_MAX_LENGTH = 64;
 
+/** Maximum length for messages sent to a running task */
+export const TASK_MESSAGE_MAX_LENGTH = 4000;
+
+// ============================================
+// Task Listing
+// ============================================
+
+/** Default page size for list_tasks */
+export const LIST_TASKS_DEFAULT_LIMIT = 20;
+
+/** Maximum page size for list_tasks */
+export const LIST_TASKS_MAX_LIMIT = 100;
+
+/** Most index entries one list_tasks call reads while filtering */
+export const LIST_TASKS_MAX_SCAN = 500;
+
+/** Index entries or events read from storage in parallel while listing */
+export const INDEX_READ_CONCURRENCY = 10;
+
+// ============================================
+// Event Log
+// ============================================
+
+/** Default page size for get_task_events */
+export const TASK_EVENTS_DEFAULT_LIMIT = 100;
+
+/** Maximum page size for get_task_events */
+export const TASK_EVENTS_MAX_LIMIT = 500;
+
+/** Event text (reasoning, tool results) is truncated to this many characters */
+export const TASK_EVENT_TEXT_MAX_LENGTH = 4000;
+
+// ============================================
+// Screenshot Capture
+// ============================================
+
+/** Lifetime of references returned by get_task_screenshot */
+export const SCREENSHOT_REFERENCE_TTL_SECONDS = 300;
+
+// ============================================
+// Completion Verification
+// ============================================
+
+/**
+ * Completion checks per task in verify mode. Every failed check but the
+ * last sends the agent back to work; the last one fails the task.
+ */
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+/** Maximum output tokens of a completion check */
+export const VERIFICATION_MAX_TOKENS = 1024;
+
+/**
+ * Retries of a completion check that could not run. If it still cannot
+ * run, the task fails rather than accepting an unchecked completion.
+ */
+export const VERIFICATION_UNAVAILABLE_RETRIES = 2;
+
+// ============================================
+// Structured Results
+// ============================================
+
+/** Tool the agent calls to finish a task that has an output_schema */
+export const COMPLETION_TOOL_NAME = "complete_task";
+
+/** Maximum size of an output_schema, as JSON */
+export const OUTPUT_SCHEMA_MAX_LENGTH = 20000;
+
+/** Maximum length of a pattern in an output_schema */
+export const SCHEMA_PATTERN_MAX_LENGTH = 200;
+
+/**
+ * Longest string tested against a schema pattern. Matching takes time
+ * proportional to the string length times the pattern's states.
+ */
+export const SCHEMA_PATTERN_INPUT_MAX_LENGTH = 1000;
+
+/** Most NFA states a schema pattern may compile to (see pattern.ts) */
+export const SCHEMA_PATTERN_MAX_STATES = 2000;
+
+// ============================================
+// Loop Detection
+// ============================================
+
+/**
+ * Consecutive identical actions (same action, text and roughly the same
+ * coordinates) that count as a loop. Scrolls, key presses and waits are
+ * legitimately repeated and are only caught by the unchanged-screen check.
+ */
+export const LOOP_REPEAT_THRESHOLD = 5;
+
+/** Consecutive times the screen did not visibly change after acting */
+export const LOOP_UNCHANGED_SCREEN_THRESHOLD = 5;
+
+/** Coordinates within this many pixels of each other count as the same spot */
+export const LOOP_COORDINATE_TOLERANCE = 10;
+
+/** Corrective messages sent before a task that keeps looping is failed */
+export const LOOP_MAX_WARNINGS = 1;
+
+/**
+ * Actions after the last corrective message after which it no longer
+ * counts. A loop detected later, once the agent has made progress, gets a
+ * fresh warning instead of failing the task.
+ */
+export const LOOP_WARNING_WINDOW_ACTIONS = 20;
+
+/** Width of the grayscale thumbnail screenshots are compared by */
+export const SCREEN_FINGERPRINT_WIDTH = 64;
+
+/**
+ * Largest difference in any thumbnail cell (0-255) still treated as the
+ * same screen. Ignores a blinking cursor, catches a typed character.
+ */
+export const SCREEN_CHANGE_THRESHOLD = 12;
+
 // ============================================
 // Timing Constants
 // ============================================
@@ -82,16 +332,40 @@ export const MAX_WAIT_MS = 5000;
 /** Interval for progress heartbeat during API calls (ms) */
 export const HEARTBEAT_INTERVAL_MS = 5000;
 
+/** Interval for polling control requests while a task is paused (ms) */
+export const PAUSE_POLL_INTERVAL_MS = 3000;
+
 /** Delay for UI to settle after actions (ms) */
 export const UI_SETTLE_DELAY_MS = 500;
 
 /** Max retries for Anthropic API calls (default is 2) */
 export const ANTHROPIC_MAX_RETRIES = 4;
 
+/** Delivery attempts for task completion callbacks */
+export const WEBHOOK_MAX_ATTEMPTS = 4;
+
+/** Base delay for callback retry backoff, doubled per attempt (ms) */
+export const WEBHOOK_RETRY_BASE_MS = 1000;
+
+/** Timeout for a single callback request (ms) */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
 // ============================================
 // Model Configurations
 // ============================================
 
+/**
+ * Token prices for a model, in USD per million tokens
+ */
+export type ModelPricing = {
+  input: number;
+  output: number;
+  /** Writing a prompt cache entry (5-minute TTL) */
+  cacheWrite: number;
+  /** Reading from the prompt cache */
+  cacheRead: number;
+};
+
 /**
  * Configuration for a specific Claude model
  */
@@ -100,6 +374,9 @@ export type ModelConfig = {
   toolType: "computer_20250124" | "computer_20251124";
   betaFlag: string;
   supportsZoom: boolean;
+  /** Mark the system prompt, tools and recent turns for prompt caching */
+  promptCaching: boolean;
+  pricing: ModelPricing;
 };
 
 /**
@@ -112,12 +389,16 @@ export const MODEL_CONFIGS: Record<string, ModelConfig> = {
     toolType: "computer_20250124",
     betaFlag: "computer-use-2025-01-24",
     supportsZoom: false,
+    promptCaching: true,
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
   },
   "claude-opus-4-5": {
     model: "claude-opus-4-5-20251101",
     toolType: "computer_20251124",
     betaFlag: "computer-use-2025-11-24",
     supportsZoom: true,
+    promptCaching: true,
+    pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
   },
 };
 
@@ -0,0 +1,117 @@
+/**
+ * Task Continuation
+ *
+ * Re-invokes the MCP handler to resume a checkpointed task in a fresh
+ * function invocation. Continuation requests are signed with
+ * CUA_CONTINUATION_SECRET; without it, tasks are limited to one invocation.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { sleep } from "./utils.js";
+import { RETRY_DELAY_MS } from "./config.js";
+
+/** Header carrying the task ID to resume */
+export const CONTINUATION_TASK_HEADER = "x-cua-continuation-task";
+
+/** Header carrying the invocation number being started */
+export const CONTINUATION_INVOCATION_HEADER = "x-cua-continuation-invocation";
+
+/** Header carrying the HMAC signature of task ID and invocation */
+export const CONTINUATION_SIGNATURE_HEADER = "x-cua-continuation-signature";
+
+function getContinuationSecret(): string {
+  return process.env.CUA_CONTINUATION_SECRET || "";
+}
+
+/**
+ * Whether tasks may run across multiple invocations
+ */
+export function isContinuationEnabled(): boolean {
+  return getContinuationSecret().length > 0;
+}
+
+/**
+ * Sign a continuation request
+ *
+ * @param taskId - Task to resume
+ * @param invocation - Invocation number being started
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function signContinuation(taskId: string, invocation: number): string {
+  return createHmac("sha256", getContinuationSecret())
+    .update(`${taskId}:${invocation}`)
+    .digest("hex");
+}
+
+/**
+ * Verify a continuation request signature
+ *
+ * @param taskId - Task to resume
+ * @param invocation - Invocation number being started
+ * @param signature - Signature from the request header
+ * @returns True if continuation is enabled and the signature matches
+ */
+export function verifyContinuation(
+  taskId: string,
+  invocation: number,
+  signature: string
+): boolean {
+  if (!isContinuationEnabled()) {
+    return false;
+  }
+  const expected = Buffer.from(signContinuation(taskId, invocation), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Ask the server to resume a task in a new invocation
+ * Retries a few times since losing the hand-off strands the task.
+ *
+ * @param serverUrl - Base URL of this deployment
+ * @param taskId - Task to resume
+ * @param invocation - Invocation number being started
+ * @param cuaApiKey - CUA API key the task was started with
+ * @param retries - Number of retry attempts (default: 2)
+ */
+export async function scheduleContinuation(
+  serverUrl: string,
+  taskId: string,
+  invocation: number,
+  cuaApiKey: string,
+  retries: number = 2
+): Promise<void> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      const response = await fetch(`${serverUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CUA-API-Key": cuaApiKey,
+          [CONTINUATION_TASK_HEADER]: taskId,
+          [CONTINUATION_INVOCATION_HEADER]: String(invocation),
+          [CONTINUATION_SIGNATURE_HEADER]: signContinuation(taskId, invocation),
+        },
+        body: "{}",
+      });
+      if (response.ok) {
+        console.log(
+          `[Agent] Scheduled continuation ${invocation} for task ${taskId}`
+        );
+        return;
+      }
+      lastError = new Error(
+        `Continuation request failed (${response.status}): ${await response.text()}`
+      );
+    } catch (err) {
+      lastError = err;
+    }
+    if (attempt < retries) {
+      await sleep(RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+  throw lastError instanceof Error
+    ? lastError
+    : new Error(String(lastError));
+}
@@ -0,0 +1,142 @@
+/**
+ * Task Control
+ *
+ * Out-of-band control requests for running tasks: cancellation,
+ * pause/resume, and operator messages injected into the conversation.
+ * Requests are written to the task store by the MCP handler and polled by
+ * the agent loop, which may be running in a different function invocation.
+ */
+
+import { getTaskStore, taskRecordPath } from "../storage/index.js";
+
+/**
+ * Message queued by the orchestrator for delivery to the agent
+ */
+export interface TaskMessage {
+  text: string;
+  sent_at: number;
+}
+
+/**
+ * Control record for a task
+ * Stored at tenants/{tenantId}/control/{taskId}.json
+ *
+ * Messages are append-only; the agent loop tracks how many it has
+ * delivered so it never needs to write to this record itself.
+ */
+export interface TaskControl {
+  task_id: string;
+  cancel_requested_at?: number;
+  cancel_reason?: string;
+  paused?: boolean;
+  paused_at?: number;
+  messages?: TaskMessage[];
+}
+
+/**
+ * Read the control record for a task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @returns The control record, or null if none has been written
+ */
+export async function getTaskControl(
+  tenantId: string,
+  taskId: string
+): Promise<TaskControl | null> {
+  return getTaskStore().getJson<TaskControl>(
+    taskRecordPath(tenantId, "control", taskId)
+  );
+}
+
+/**
+ * Write the control record for a task
+ */
+async function writeTaskControl(
+  tenantId: string,
+  control: TaskControl
+): Promise<void> {
+  await getTaskStore().putJson(
+    taskRecordPath(tenantId, "control", control.task_id),
+    control
+  );
+}
+
+/**
+ * Record a cancellation request for a task
+ * The agent loop picks it up between iterations or on its next heartbeat.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param reason - Optional human-readable reason
+ */
+export async function requestCancellation(
+  tenantId: string,
+  taskId: string,
+  reason?: string
+): Promise<void> {
+  const existing = await getTaskControl(tenantId, taskId);
+  const control: TaskControl = {
+    ...existing,
+    task_id: taskId,
+    cancel_requested_at: existing?.cancel_requested_at ?? Date.now(),
+    cancel_reason: reason ?? existing?.cancel_reason,
+  };
+  await writeTaskControl(tenantId, control);
+}
+
+/**
+ * Pause or resume a task
+ * A paused agent loop idles without calling Anthropic until resumed.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param paused - True to pause, false to resume
+ */
+export async function setTaskPaused(
+  tenantId: string,
+  taskId: string,
+  paused: boolean
+): Promise<void> {
+  const existing = await getTaskControl(tenantId, taskId);
+  await writeTaskControl(tenantId, {
+    ...existing,
+    task_id: taskId,
+    paused,
+    paused_at: paused ? Date.now() : undefined,
+  });
+}
+
+/**
+ * Queue a message for delivery to the agent on its next iteration
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param text - Message text
+ * @returns Number of messages queued for the task so far
+ */
+export async function queueTaskMessage(
+  tenantId: string,
+  taskId: string,
+  text: string
+): Promise<number> {
+  const existing = await getTaskControl(tenantId, taskId);
+  const messages = [...(existing?.messages ?? []), { text, sent_at: Date.now() }];
+  await writeTaskControl(tenantId, { ...existing, task_id: taskId, messages });
+  return messages.length;
+}
+
+/**
+ * Check whether cancellation has been requested for a task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @returns True if a cancellation request exists
+ */
+export async function isCancellationRequested(
+  tenantId: string,
+  taskId: string
+): Promise<boolean> {
+  const control = await getTaskControl(tenantId, taskId);
+  return !!control?.cancel_requested_at;
+}
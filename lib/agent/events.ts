@@ -0,0 +1,165 @@
+/**
+ * Task Event Log
+ *
+ * Append-only log of everything a task does: reasoning, actions, tool
+ * results, operator messages, status changes and errors. Each event is a
+ * separate record under tenants/{tenantId}/events/{taskId}/, numbered in
+ * order, so clients can tail a task with get_task_events.
+ */
+
+import { getTaskStore, taskEventsPrefix } from "../storage/index.js";
+import type { ActionInput, TaskEvent, TaskProgress } from "./types.js";
+import {
+  INDEX_READ_CONCURRENCY,
+  TASK_EVENTS_DEFAULT_LIMIT,
+  TASK_EVENTS_MAX_LIMIT,
+  TASK_EVENT_TEXT_MAX_LENGTH,
+} from "./config.js";
+
+// Zero-padded so event paths sort in sequence order
+const SEQ_DIGITS = 8;
+
+/**
+ * Event fields supplied by the caller; the log assigns seq and timestamp
+ */
+export type TaskEventInput = Omit<TaskEvent, "seq" | "timestamp">;
+
+/**
+ * One page of events from get_task_events
+ */
+export interface TaskEventPage {
+  events: TaskEvent[];
+  has_more: boolean;
+}
+
+function eventPath(tenantId: string, taskId: string, seq: number): string {
+  return `${taskEventsPrefix(tenantId, taskId)}${String(seq).padStart(SEQ_DIGITS, "0")}.json`;
+}
+
+// Sequence number from an event path, or NaN for anything else
+function seqOf(path: string): number {
+  const match = path.match(/\/(\d+)\.json$/);
+  return match ? Number(match[1]) : NaN;
+}
+
+/**
+ * Prepare an action's input for the event log
+ * Typed text may be a password or other secret and the log is kept until
+ * the task expires, so type actions record only its length.
+ *
+ * @param input - Action input from the model
+ * @returns The input to record
+ */
+export function redactActionInput(input: ActionInput): ActionInput {
+  if (input.action !== "type" || input.text === undefined) {
+    return input;
+  }
+  return { ...input, text: `[${[...input.text].length} characters]` };
+}
+
+/**
+ * Writer for one task's event log
+ *
+ * Events are written one at a time, in order, without blocking the agent
+ * loop. progress.last_event_seq tracks the last event written and carries
+ * the sequence across invocations of a resumable task.
+ */
+export class TaskEventLog {
+  private lastSeq: number;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param tenantId - Tenant that owns the task
+   * @param taskId - Unique task identifier
+   * @param progress - Progress record of the task (last_event_seq is updated)
+   */
+  constructor(
+    private readonly tenantId: string,
+    private readonly taskId: string,
+    private readonly progress: TaskProgress
+  ) {
+    this.lastSeq = progress.last_event_seq ?? 0;
+  }
+
+  /**
+   * Append an event
+   * Write failures are logged, not thrown - the log must never fail a task.
+   *
+   * @param input - Event fields
+   */
+  append(input: TaskEventInput): void {
+    const event: TaskEvent = {
+      seq: ++this.lastSeq,
+      timestamp: Date.now(),
+      ...input,
+      ...(input.text !== undefined
+        ? { text: input.text.slice(0, TASK_EVENT_TEXT_MAX_LENGTH) }
+        : {}),
+    };
+    this.writes = this.writes.then(async () => {
+      try {
+        await getTaskStore().putJson(eventPath(this.tenantId, this.taskId, event.seq), event);
+        this.progress.last_event_seq = event.seq;
+      } catch (err) {
+        console.error(
+          `[Agent] Failed to write event ${event.seq} for task ${this.taskId}:`,
+          err
+        );
+      }
+    });
+  }
+
+  /**
+   * Wait for all appended events to be written
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+}
+
+/**
+ * Read a task's events after a sequence number, oldest first
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param afterSeq - Return events with a greater seq (0 for the whole log)
+ * @param limit - Maximum events to return
+ * @returns One page of events
+ */
+export async function listTaskEvents(
+  tenantId: string,
+  taskId: string,
+  afterSeq: number = 0,
+  limit?: number
+): Promise<TaskEventPage> {
+  const pageSize = Math.min(
+    limit && limit > 0 ? limit : TASK_EVENTS_DEFAULT_LIMIT,
+    TASK_EVENTS_MAX_LIMIT
+  );
+
+  const store = getTaskStore();
+  const paths: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.list(taskEventsPrefix(tenantId, taskId), { cursor });
+    paths.push(
+      ...page.objects
+        .map((object) => object.path)
+        .filter((path) => seqOf(path) > afterSeq)
+    );
+    cursor = page.cursor;
+  } while (cursor);
+  paths.sort((a, b) => seqOf(a) - seqOf(b));
+
+  const selected = paths.slice(0, pageSize);
+  const events: TaskEvent[] = [];
+  for (let i = 0; i < selected.length; i += INDEX_READ_CONCURRENCY) {
+    const batch = await Promise.all(
+      selected
+        .slice(i, i + INDEX_READ_CONCURRENCY)
+        .map((path) => store.getJson<TaskEvent>(path))
+    );
+    events.push(...batch.filter((event): event is TaskEvent => !!event));
+  }
+  return { events, has_more: paths.length > pageSize };
+}
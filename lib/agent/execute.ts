@@ -6,33 +6,66 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import { put } from "@vercel/blob";
+import { getTenantId } from "../storage/index.js";
 import { CuaComputerClient, CommandResult } from "../cua-client.js";
 import type {
   AgentStep,
   TaskResult,
   TaskProgress,
+  TaskCheckpoint,
+  TaskSuspension,
+  ExecuteTaskOptions,
   ActionInput,
+  ActionContext,
+  ActionResult,
 } from "./types.js";
 import {
   DEFAULT_DISPLAY_WIDTH,
   DEFAULT_DISPLAY_HEIGHT,
-  RECOMMENDED_MAX_WIDTH,
-  RECOMMENDED_MAX_HEIGHT,
   UI_SETTLE_DELAY_MS,
   HEARTBEAT_INTERVAL_MS,
+  PAUSE_POLL_INTERVAL_MS,
   DEFAULT_MAX_STEPS,
   DEFAULT_TIMEOUT_SECONDS,
   ANTHROPIC_MAX_RETRIES,
-  MAX_MESSAGE_HISTORY,
+  CHARS_PER_TOKEN_ESTIMATE,
+  PIXELS_PER_IMAGE_TOKEN,
+  OMITTED_SCREENSHOT_TEXT,
+  SCREENSHOT_OMIT_BATCH,
+  getKeepScreenshots,
+  getContextTokenLimit,
+  PROMPT_CACHE_MESSAGE_BREAKPOINTS,
+  CHECKPOINT_INTERVAL_ITERATIONS,
+  MAX_VERIFICATION_ATTEMPTS,
+  VERIFICATION_UNAVAILABLE_RETRIES,
+  RETRY_DELAY_MS,
+  COMPLETION_TOOL_NAME,
   getModelConfig,
 } from "./config.js";
 import {
   updateProgress,
   initializeProgress,
   finalizeTask,
+  saveTaskResult,
   summarizeAction,
+  summarizeMessage,
 } from "./progress.js";
+import { getTaskControl, isCancellationRequested } from "./control.js";
+import { indexTask } from "./task-index.js";
+import { TaskEventLog, redactActionInput } from "./events.js";
+import { updateTaskMemory } from "./memory.js";
+import { LoopDetector, screenFingerprint } from "./loop-detection.js";
+import { verifyCompletion } from "./verify.js";
+import { validateJson } from "./json-schema.js";
+import { emptyUsage, requestUsage, addUsage, checkBudget } from "./usage.js";
+import {
+  saveScreenshot,
+  stepScreenshotName,
+  FINAL_SCREENSHOT,
+  type ScreenshotImage,
+} from "./screenshots.js";
+import { getScaledSize, isScaled, toScreenCoordinates } from "./scaling.js";
+import { saveCheckpoint, deleteCheckpoint } from "./checkpoint.js";
 import { sleep, generateTaskId, getSandboxHost } from "./utils.js";
 import { ACTION_HANDLERS, OBSERVATION_ACTIONS } from "./actions/index.js";
 
@@ -48,22 +81,275 @@ const NO_AUTO_RELEASE_ACTIONS = new Set([
 // Message History Management
 // ============================================
 
+type ContentBlock =
+  | Anthropic.Beta.BetaContentBlockParam
+  | Exclude<Anthropic.Beta.BetaToolResultBlockParam["content"], string | undefined>[number];
+
+/**
+ * Limits applied by compactMessageHistory
+ */
+interface HistoryLimits {
+  /** Most recent screenshots to keep */
+  keepScreenshots: number;
+  /** Estimated token limit for the whole history */
+  tokenLimit: number;
+  /** Estimated tokens of one screenshot */
+  imageTokens: number;
+}
+
+/**
+ * Estimate the tokens of a content block
+ *
+ * @param block - Content block
+ * @param imageTokens - Estimated tokens of one image
+ */
+function estimateBlockTokens(block: ContentBlock, imageTokens: number): number {
+  if (block.type === "image") {
+    return imageTokens;
+  }
+  if (block.type === "tool_result" && Array.isArray(block.content)) {
+    return block.content.reduce(
+      (total, inner) => total + estimateBlockTokens(inner, imageTokens),
+      0
+    );
+  }
+  return Math.ceil(JSON.stringify(block).length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Estimate the tokens of the message history
+ *
+ * @param messages - The message history
+ * @param imageTokens - Estimated tokens of one image
+ */
+function estimateHistoryTokens(
+  messages: Anthropic.Beta.BetaMessageParam[],
+  imageTokens: number
+): number {
+  let total = 0;
+  for (const message of messages) {
+    total +=
+      typeof message.content === "string"
+        ? Math.ceil(message.content.length / CHARS_PER_TOKEN_ESTIMATE)
+        : message.content.reduce(
+            (sum, block) => sum + estimateBlockTokens(block as ContentBlock, imageTokens),
+            0
+          );
+  }
+  return total;
+}
+
 /**
- * Trim message history to prevent context bloat from accumulated screenshots.
- * Keeps the initial user message (task) plus the last N exchanges.
- * Each exchange = assistant response + user tool results.
+ * Find the images in the message history, oldest first
  *
- * @param messages - The messages array to trim (mutated in place)
+ * @param messages - The message history
+ * @returns The arrays holding each image and its index in them
  */
-function trimMessageHistory(
+function findImages(
   messages: Anthropic.Beta.BetaMessageParam[]
+): { blocks: ContentBlock[]; index: number }[] {
+  const images: { blocks: ContentBlock[]; index: number }[] = [];
+  const visit = (blocks: ContentBlock[]) => {
+    blocks.forEach((block, index) => {
+      if (block.type === "image") {
+        images.push({ blocks, index });
+      } else if (block.type === "tool_result" && Array.isArray(block.content)) {
+        visit(block.content);
+      }
+    });
+  };
+  for (const message of messages) {
+    if (message.role === "user" && typeof message.content !== "string") {
+      visit(message.content);
+    }
+  }
+  return images;
+}
+
+/**
+ * Keep the message history within its limits without losing the record of
+ * what the agent did. Screenshots older than the most recent
+ * limits.keepScreenshots are replaced with a short note, keeping all text
+ * and actions. They are replaced in batches, once SCREENSHOT_OMIT_BATCH
+ * extra have built up, so the cached prefix of the history stays the same
+ * for several turns. If the estimated size is still over limits.tokenLimit, more
+ * screenshots are replaced (keeping the latest) and, as a last resort, the
+ * oldest exchanges are dropped. Exchanges are dropped as whole
+ * assistant/user pairs so no tool_use is left without its tool_result.
+ *
+ * @param messages - The message history (mutated in place)
+ * @param limits - Screenshot and token limits
+ * @returns The dropped messages, oldest first
+ */
+function compactMessageHistory(
+  messages: Anthropic.Beta.BetaMessageParam[],
+  limits: HistoryLimits
+): Anthropic.Beta.BetaMessageParam[] {
+  const images = findImages(messages);
+  const omit = ({ blocks, index }: { blocks: ContentBlock[]; index: number }) => {
+    blocks[index] = { type: "text", text: OMITTED_SCREENSHOT_TEXT };
+  };
+
+  const keep = Math.max(1, limits.keepScreenshots);
+  if (images.length >= keep + SCREENSHOT_OMIT_BATCH) {
+    while (images.length > keep) {
+      omit(images.shift()!);
+    }
+  }
+
+  let estimate = estimateHistoryTokens(messages, limits.imageTokens);
+  while (estimate > limits.tokenLimit && images.length > 1) {
+    omit(images.shift()!);
+    estimate = estimateHistoryTokens(messages, limits.imageTokens);
+  }
+
+  // Keep the initial task message at index 0 and the latest exchange
+  const dropped: Anthropic.Beta.BetaMessageParam[] = [];
+  while (
+    estimate > limits.tokenLimit &&
+    messages.length > 3 &&
+    messages[1].role === "assistant" &&
+    messages[2].role === "user"
+  ) {
+    dropped.push(...messages.splice(1, 2));
+    estimate = estimateHistoryTokens(messages, limits.imageTokens);
+  }
+  if (dropped.length > 0) {
+    console.warn(
+      `[Agent] Dropped ${dropped.length / 2} oldest exchange(s) to keep the history under ~${limits.tokenLimit} tokens`
+    );
+  }
+  return dropped;
+}
+
+/**
+ * Text of the first user message: the task, and the memory of dropped
+ * exchanges once there is one
+ *
+ * @param task - The task description
+ * @param memory - Summary of the dropped exchanges, if any
+ */
+function taskPrompt(task: string, memory?: string): string {
+  return memory
+    ? `Task: ${task}\n\nProgress so far (earlier steps were removed from this conversation to save space):\n${memory}\n\nPlease continue with this task. Start by taking a screenshot to see the current state.`
+    : `Task: ${task}\n\nPlease complete this task. Start by taking a screenshot to see the current state.`;
+}
+
+/**
+ * Replace the task text in the first user message, keeping any operator
+ * messages that were merged into it
+ *
+ * @param messages - The message history (mutated in place)
+ * @param text - New task text
+ */
+function setTaskPrompt(messages: Anthropic.Beta.BetaMessageParam[], text: string): void {
+  const first = messages[0];
+  if (typeof first.content === "string") {
+    first.content = text;
+  } else {
+    first.content = [{ type: "text", text }, ...first.content.slice(1)];
+  }
+}
+
+/**
+ * Copy the message history with prompt cache breakpoints on the most
+ * recent user turns. Each request writes its new turns to the cache and
+ * reads the prefix up to the previous breakpoint from it. The stored
+ * history stays unmarked, since a request may carry only four breakpoints.
+ *
+ * @param messages - The message history
+ * @param count - Number of user turns to mark
+ * @returns Messages to send with the request
+ */
+function withCacheBreakpoints(
+  messages: Anthropic.Beta.BetaMessageParam[],
+  count: number
+): Anthropic.Beta.BetaMessageParam[] {
+  const marked = [...messages];
+  let remaining = count;
+  for (let i = marked.length - 1; i >= 0 && remaining > 0; i--) {
+    const message = marked[i];
+    if (message.role !== "user") {
+      continue;
+    }
+    const content: Anthropic.Beta.BetaContentBlockParam[] =
+      typeof message.content === "string"
+        ? [{ type: "text", text: message.content }]
+        : message.content;
+    if (content.length === 0) {
+      continue;
+    }
+    const last = {
+      ...content[content.length - 1],
+      cache_control: { type: "ephemeral" },
+    } as Anthropic.Beta.BetaContentBlockParam;
+    marked[i] = { ...message, content: [...content.slice(0, -1), last] };
+    remaining--;
+  }
+  return marked;
+}
+
+/**
+ * Append operator text to the conversation as a user turn.
+ * Merges into the trailing user message (e.g. tool results) when there is
+ * one, so user and assistant turns keep alternating.
+ *
+ * @param messages - The messages array (mutated in place)
+ * @param text - Text to append
+ */
+function appendUserText(
+  messages: Anthropic.Beta.BetaMessageParam[],
+  text: string
 ): void {
-  // Each exchange is 2 messages (assistant + user), plus initial user message
-  const maxMessages = MAX_MESSAGE_HISTORY * 2 + 1;
+  const last = messages[messages.length - 1];
+  if (last?.role === "user") {
+    const content =
+      typeof last.content === "string"
+        ? [{ type: "text" as const, text: last.content }]
+        : last.content;
+    last.content = [...content, { type: "text", text }];
+    return;
+  }
+  messages.push({ role: "user", content: text });
+}
+
+// ============================================
+// Held Input Release
+// ============================================
+
+/**
+ * Release all held modifier keys
+ * Failures are logged and ignored so that one stuck key doesn't block the rest.
+ *
+ * @param computer - The CUA computer client
+ * @param heldKeys - Set of held keys (cleared after release)
+ */
+async function releaseHeldKeys(
+  computer: CuaComputerClient,
+  heldKeys: Set<string>
+): Promise<void> {
+  for (const key of heldKeys) {
+    try {
+      await computer.keyUp(key);
+      console.log(`[Agent] Released key: ${key}`);
+    } catch (err) {
+      console.warn(`[Agent] Failed to release key ${key}:`, err);
+    }
+  }
+  heldKeys.clear();
+}
 
-  while (messages.length > maxMessages) {
-    // Remove the oldest exchange (indices 1 and 2), preserving the initial task message at index 0
-    messages.splice(1, 2);
+/**
+ * Release the left mouse button if it was left pressed by left_mouse_down
+ *
+ * @param computer - The CUA computer client
+ */
+async function releaseMouseButton(computer: CuaComputerClient): Promise<void> {
+  try {
+    await computer.mouseUp();
+    console.log("[Agent] Released left mouse button");
+  } catch (err) {
+    console.warn("[Agent] Failed to release left mouse button:", err);
   }
 }
 
@@ -138,6 +424,54 @@ async function getScreenDimensions(
   return { width: DEFAULT_DISPLAY_WIDTH, height: DEFAULT_DISPLAY_HEIGHT };
 }
 
+// ============================================
+// Screenshot Capture
+// ============================================
+
+/**
+ * Extract the image from a screenshot action's result
+ *
+ * @param content - Content returned by the action handler
+ * @returns The image, or undefined if the result has none
+ */
+function getResultImage(content: ActionResult["content"]): ScreenshotImage | undefined {
+  if (typeof content === "string") {
+    return undefined;
+  }
+  for (const block of content) {
+    if (block.source.type === "base64") {
+      return { media_type: block.source.media_type, data: block.source.data };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Store the screen as the task's final screenshot
+ * Failures are logged and ignored - the task is already finished.
+ *
+ * @param computer - The CUA computer client
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ */
+async function captureFinalScreenshot(
+  computer: CuaComputerClient,
+  tenantId: string,
+  taskId: string
+): Promise<void> {
+  try {
+    const result = await computer.screenshot();
+    if (result.success && result.base64_image) {
+      await saveScreenshot(tenantId, taskId, FINAL_SCREENSHOT, {
+        media_type: "image/png",
+        data: result.base64_image,
+      });
+    }
+  } catch (err) {
+    console.warn(`[Agent] Failed to capture final screenshot for ${taskId}:`, err);
+  }
+}
+
 // ============================================
 // System Prompt
 // ============================================
@@ -173,27 +507,57 @@ If you cannot complete the task, output exactly: TASK_FAILED: <reason>
 
 Be efficient and direct. Verify your actions worked before moving on.`;
 
+// Added to the system prompt of tasks with an output_schema
+const STRUCTURED_RESULT_PROMPT = `
+
+STRUCTURED RESULT:
+This task must return a structured result. When the task is complete, call the ${COMPLETION_TOOL_NAME} tool with the result instead of outputting TASK_COMPLETE. Its input must match the tool's schema; if it is rejected, fix the listed problems and call it again.
+If you cannot complete the task, output TASK_FAILED: <reason> as usual.`;
+
+/**
+ * Tool the agent finishes a structured-result task with
+ * The output schema is its input schema, so the model sees exactly what
+ * the result must look like. Its input is still validated on arrival.
+ *
+ * @param outputSchema - The task's output_schema
+ * @returns Tool definition
+ */
+function completionTool(outputSchema: Record<string, unknown>): Anthropic.Beta.BetaTool {
+  return {
+    name: COMPLETION_TOOL_NAME,
+    description:
+      "Complete the task by submitting its result. Call this only once the task is done; " +
+      "the input is the result and must match the schema.",
+    input_schema: outputSchema as Anthropic.Beta.BetaTool.InputSchema,
+  };
+}
+
 // ============================================
 // Background Execution Wrapper
 // ============================================
 
 /**
  * Execute a task in the background (for non-blocking mode)
- * Wraps executeTask with error handling and result storage
+ * Wraps executeTask with error handling and result storage.
+ * If the task hands off to a continuation, nothing is stored yet -
+ * the invocation that finishes the task stores the result.
+ *
+ * @returns The final result, or undefined if the task was handed off
  */
 export async function executeTaskInBackground(
   taskId: string,
-  progressUrl: string,
   sandboxName: string,
   host: string,
   cuaApiKey: string,
   anthropicApiKey: string,
   task: string,
   maxSteps: number,
-  timeoutSeconds: number
-): Promise<void> {
+  timeoutSeconds: number,
+  options: ExecuteTaskOptions = {}
+): Promise<TaskResult | undefined> {
+  let result: TaskResult | TaskSuspension;
   try {
-    const result = await executeTask(
+    result = await executeTask(
       sandboxName,
       host,
       cuaApiKey,
@@ -202,43 +566,74 @@ export async function executeTaskInBackground(
       maxSteps,
       timeoutSeconds,
       taskId,
-      progressUrl
+      options
     );
-
-    // Store final result in Blob
-    await put(`tasks/${taskId}.json`, JSON.stringify(result), {
-      access: "public",
-      addRandomSuffix: false,
-    });
   } catch (err) {
     console.error(`[Agent] Background task ${taskId} failed:`, err);
+    const errorMsg = err instanceof Error ? err.message : String(err);
 
-    // Update progress with error
+    // Update progress with error (and deliver any pending callback)
+    const callbackUrl = options.callbackUrl ?? options.checkpoint?.progress.callback?.url;
     const errorProgress: TaskProgress = {
       task_id: taskId,
       sandbox_name: sandboxName,
       task,
-      status: "failed",
+      status: "running",
       current_step: 0,
       max_steps: maxSteps,
-      started_at: Date.now(),
+      started_at: options.checkpoint?.progress.started_at ?? Date.now(),
       updated_at: Date.now(),
       elapsed_ms: 0,
       timeout_seconds: timeoutSeconds,
       steps_summary: [],
-      final_result: {
+      ...(callbackUrl
+        ? { callback: { url: callbackUrl, status: "pending", attempts: 0 } }
+        : {}),
+    };
+    await finalizeTask(
+      getTenantId(cuaApiKey),
+      taskId,
+      errorProgress,
+      "failed",
+      {
         success: false,
-        summary: `Background execution failed: ${err instanceof Error ? err.message : String(err)}`,
-        total_steps: 0,
-        duration_ms: 0,
-        error: err instanceof Error ? err.message : String(err),
+        summary: `Background execution failed: ${errorMsg}`,
+        steps: 0,
+        durationMs: 0,
+        error: errorMsg,
       },
+      options.runInBackground
+    );
+
+    // Stored like any other result, so history and reports cover the task
+    const failure: TaskResult = {
+      task_id: taskId,
+      status: "failed",
+      success: false,
+      summary: `Background execution failed: ${errorMsg}`,
+      steps: [],
+      steps_taken: 0,
+      duration_ms: 0,
+      error: errorMsg,
     };
-    await put(`progress/${taskId}.json`, JSON.stringify(errorProgress), {
-      access: "public",
-      addRandomSuffix: false,
-    });
+    await saveTaskResult(getTenantId(cuaApiKey), taskId, failure);
+    return failure;
+  }
+
+  if (result.status === "suspended") {
+    return undefined;
   }
+
+  // The task is already finalized, so storage errors from here on are
+  // logged rather than reported as a failed task
+  const tenantId = getTenantId(cuaApiKey);
+  await saveTaskResult(tenantId, taskId, result);
+  try {
+    await deleteCheckpoint(tenantId, taskId);
+  } catch (err) {
+    console.error(`[Agent] Failed to delete checkpoint of task ${taskId}:`, err);
+  }
+  return result;
 }
 
 // ============================================
@@ -254,10 +649,12 @@ export async function executeTaskInBackground(
  * @param anthropicApiKey - API key for Anthropic
  * @param task - Task description to complete
  * @param maxSteps - Maximum meaningful actions (default: 100)
- * @param timeoutSeconds - Timeout in seconds (default: 280, max: 280)
- * @param existingTaskId - Pre-generated task ID (for non-blocking mode)
- * @param existingProgressUrl - Pre-initialized progress URL
- * @returns Task result with progress URL
+ * @param timeoutSeconds - Timeout in seconds across all invocations (default: 750)
+ * @param existingTaskId - Pre-generated task ID with initialized progress
+ *   (for non-blocking mode)
+ * @param options - Checkpoint to resume from and continuation settings
+ * @returns Task result, or a suspension if the task handed off to a new
+ *   invocation
  */
 export async function executeTask(
   sandboxName: string,
@@ -268,16 +665,21 @@ export async function executeTask(
   maxSteps: number = DEFAULT_MAX_STEPS,
   timeoutSeconds: number = DEFAULT_TIMEOUT_SECONDS,
   existingTaskId?: string,
-  existingProgressUrl?: string
-): Promise<TaskResult & { progress_url?: string }> {
-  const taskId = existingTaskId || generateTaskId();
-  const startTime = Date.now();
-  const steps: AgentStep[] = [];
-  let progressUrl: string | undefined = existingProgressUrl;
-  let lastReasoning: string | undefined;
+  options: ExecuteTaskOptions = {}
+): Promise<TaskResult | TaskSuspension> {
+  const { checkpoint, continuation } = options;
+  const taskId = checkpoint?.task_id || existingTaskId || generateTaskId();
+  // Task records are scoped to the CUA API key that started the task
+  const tenantId = getTenantId(cuaApiKey);
+  // Timeouts are measured from the original start, across invocations
+  const startTime = checkpoint?.progress.started_at ?? Date.now();
+  const invocationStart = Date.now();
+  const invocation = checkpoint?.invocation ?? 1;
+  const steps: AgentStep[] = checkpoint?.steps ?? [];
+  let lastReasoning: string | undefined = checkpoint?.last_reasoning;
 
   // Initialize progress tracking (only if not pre-initialized)
-  const progress: TaskProgress = {
+  const progress: TaskProgress = checkpoint?.progress ?? {
     task_id: taskId,
     sandbox_name: sandboxName,
     task,
@@ -289,63 +691,401 @@ export async function executeTask(
     elapsed_ms: 0,
     timeout_seconds: timeoutSeconds,
     steps_summary: [],
+    ...(options.callbackUrl
+      ? { callback: { url: options.callbackUrl, status: "pending", attempts: 0 } }
+      : {}),
+    ...(options.captureScreenshots ? { capture_screenshots: true } : {}),
+    ...(options.budget ? { budget: options.budget } : {}),
+    ...(options.verify
+      ? {
+          verification: {
+            ...(options.verify.successCriteria
+              ? { success_criteria: options.verify.successCriteria }
+              : {}),
+            attempts: 0,
+          },
+        }
+      : {}),
+    ...(options.outputSchema ? { output_schema: options.outputSchema } : {}),
   };
+  // Token usage accumulates across invocations in the progress record
+  if (!progress.usage) {
+    progress.usage = emptyUsage();
+  }
+  const usage = progress.usage;
+  if (continuation) {
+    progress.invocations = invocation;
+  }
 
   // Store initial progress (only if not pre-initialized)
-  if (!existingProgressUrl) {
-    progressUrl = await updateProgress(taskId, progress);
+  if (!existingTaskId && !checkpoint) {
+    await indexTask(tenantId, progress);
+    await updateProgress(tenantId, taskId, progress);
   }
 
+  // Every reasoning block, action, result and status change is logged
+  const events = new TaskEventLog(tenantId, taskId, progress);
+
   const anthropic = new Anthropic({
     apiKey: anthropicApiKey,
     maxRetries: ANTHROPIC_MAX_RETRIES, // Default is 2, increase for long-running tasks
   });
   const computer = new CuaComputerClient(sandboxName, host, cuaApiKey);
 
-  // Get actual screen dimensions from sandbox
-  const screenSize = await getScreenDimensions(computer);
-  const displayWidth = screenSize.width;
-  const displayHeight = screenSize.height;
-
-  // Warn if resolution exceeds Anthropic recommendations for computer use
-  if (
-    displayWidth > RECOMMENDED_MAX_WIDTH ||
-    displayHeight > RECOMMENDED_MAX_HEIGHT
-  ) {
-    console.warn(
-      `[Agent] Screen resolution ${displayWidth}x${displayHeight} exceeds ` +
-        `Anthropic's recommended maximum of ${RECOMMENDED_MAX_WIDTH}x${RECOMMENDED_MAX_HEIGHT}. ` +
-        `Coordinate accuracy may be reduced for computer use tasks.`
+  // Get actual screen dimensions from sandbox (reuse them when resuming)
+  const screenSize =
+    checkpoint?.screen_size ?? (await getScreenDimensions(computer));
+  const screenWidth = screenSize.width;
+  const screenHeight = screenSize.height;
+
+  // Screens larger than Anthropic recommends for computer use are presented
+  // to the model at a scaled-down size; handlers map coordinates back
+  const { width: displayWidth, height: displayHeight } = getScaledSize(
+    screenWidth,
+    screenHeight
+  );
+  const actionContext: ActionContext = {
+    displayWidth,
+    displayHeight,
+    screenWidth,
+    screenHeight,
+  };
+  if (isScaled(actionContext)) {
+    console.log(
+      `[Agent] Scaling screen ${screenWidth}x${screenHeight} to ${displayWidth}x${displayHeight} for the model`
     );
   }
 
   // Get model configuration
   const modelConfig = getModelConfig();
 
-  const messages: Anthropic.Beta.BetaMessageParam[] = [
+  const messages: Anthropic.Beta.BetaMessageParam[] = checkpoint?.messages ?? [
     {
       role: "user",
-      content: `Task: ${task}\n\nPlease complete this task. Start by taking a screenshot to see the current state.`,
+      content: taskPrompt(task),
     },
   ];
+  // Summary of exchanges dropped from the history, kept in messages[0]
+  let memory = checkpoint?.memory;
+  // Watches for repeated actions and a screen that stops changing
+  const loopDetector = new LoopDetector(checkpoint?.loop_detection);
+  const historyLimits: HistoryLimits = {
+    keepScreenshots: getKeepScreenshots(),
+    tokenLimit: getContextTokenLimit(),
+    imageTokens: Math.ceil((displayWidth * displayHeight) / PIXELS_PER_IMAGE_TOKEN),
+  };
 
   // Track meaningful actions (excludes screenshot/zoom which are just observations)
-  let meaningfulSteps = 0;
+  let meaningfulSteps = checkpoint?.meaningful_steps ?? 0;
   // Safety limit: total iterations including screenshots (prevents infinite loops)
   const maxTotalIterations = maxSteps * 3;
-  let totalIterations = 0;
+  let totalIterations = checkpoint?.total_iterations ?? 0;
 
   // Track held modifier keys for auto-release after actions
   // This works around Anthropic's computer use tool schema not having release_key
-  const heldKeys = new Set<string>();
+  const heldKeys = new Set<string>(checkpoint?.held_keys);
+  // Track left_mouse_down without a matching left_mouse_up (released on cancel)
+  let mouseButtonHeld = checkpoint?.mouse_button_held ?? false;
+
+  // Set by the heartbeat when cancel_task is called during an API request
+  let cancelRequested = false;
+  // Number of operator messages (send_task_message) already injected
+  let deliveredMessages = checkpoint?.delivered_messages ?? 0;
+
+  // Latest full screenshot the model saw, and the name it was stored
+  // under once a meaningful action used it (capture_screenshots)
+  let lastScreenshot: ScreenshotImage | undefined = checkpoint?.last_screenshot;
+  let lastScreenshotName: string | undefined = checkpoint?.last_screenshot_name;
+
+  // Hand off to a new invocation once this one has used its budget
+  const invocationDeadline = continuation
+    ? invocationStart + continuation.budgetSeconds * 1000
+    : Infinity;
+
+  /**
+   * Snapshot loop state for the invocation that will resume it
+   */
+  const buildCheckpoint = (): TaskCheckpoint => ({
+    task_id: taskId,
+    sandbox_name: sandboxName,
+    host,
+    task,
+    max_steps: maxSteps,
+    timeout_seconds: timeoutSeconds,
+    invocation: invocation + 1,
+    saved_at: Date.now(),
+    progress,
+    steps,
+    messages,
+    meaningful_steps: meaningfulSteps,
+    total_iterations: totalIterations,
+    held_keys: [...heldKeys],
+    mouse_button_held: mouseButtonHeld,
+    delivered_messages: deliveredMessages,
+    last_reasoning: lastReasoning,
+    memory,
+    loop_detection: loopDetector.toState(),
+    ...(progress.capture_screenshots && lastScreenshot
+      ? { last_screenshot: lastScreenshot, last_screenshot_name: lastScreenshotName }
+      : {}),
+    screen_size: { width: screenWidth, height: screenHeight },
+  });
+
+  /**
+   * Log the final status, write any pending events, and finalize the task
+   */
+  const finalize = async (
+    status: TaskProgress["status"],
+    result: Parameters<typeof finalizeTask>[4]
+  ): Promise<void> => {
+    events.append({ type: "status", status, text: result.summary });
+    if (progress.capture_screenshots) {
+      await captureFinalScreenshot(computer, tenantId, taskId);
+    }
+    await events.flush();
+    await finalizeTask(tenantId, taskId, progress, status, result, options.runInBackground);
+  };
+
+  // Set when a completion is not accepted and the agent is sent back to work
+  let completionFeedback: string | undefined;
+
+  /**
+   * Finalize the task as completed and build the result. Tasks with an
+   * output_schema must complete with their structured result, and in verify
+   * mode the completion is checked first. If the completion is not accepted
+   * (and verification attempts remain), completionFeedback is set and null
+   * is returned so the agent continues.
+   */
+  const complete = async (
+    summary: string,
+    data?: Record<string, unknown>
+  ): Promise<TaskResult | null> => {
+    if (progress.output_schema && data === undefined) {
+      completionFeedback =
+        `This task needs a structured result. Call the ${COMPLETION_TOOL_NAME} tool with it ` +
+        "to complete the task.";
+      return null;
+    }
+
+    const verification = progress.verification;
+    let verdict: Awaited<ReturnType<typeof verifyCompletion>> | undefined;
+    if (verification) {
+      // A check that could not run is retried; it never counts as a pass
+      for (let retry = 0; ; retry++) {
+        verdict = await verifyCompletion(
+          anthropic,
+          modelConfig,
+          computer,
+          actionContext,
+          task,
+          summary,
+          verification.success_criteria
+        );
+        if (verdict.usage) {
+          const verificationUsage = requestUsage(verdict.usage, modelConfig.pricing);
+          addUsage(usage, verificationUsage);
+          events.append({ type: "usage", usage: verificationUsage });
+        }
+        if (!verdict.unavailable || retry >= VERIFICATION_UNAVAILABLE_RETRIES) {
+          break;
+        }
+        console.warn(`[Agent] Task ${taskId} completion check could not run; retrying`);
+        await sleep(RETRY_DELAY_MS);
+      }
+      verification.attempts++;
+      events.append({
+        type: "verification",
+        success: verdict.verified,
+        text: verdict.reasoning,
+      });
+      console.log(
+        `[Agent] Task ${taskId} completion ${verdict.verified ? "verified" : "not verified"} ` +
+          `(attempt ${verification.attempts}/${MAX_VERIFICATION_ATTEMPTS}): ${verdict.reasoning}`
+      );
+
+      if (!verdict.verified) {
+        if (!verdict.unavailable && verification.attempts < MAX_VERIFICATION_ATTEMPTS) {
+          completionFeedback =
+            `An independent check of the screen found the task is not complete yet: ${verdict.reasoning}\n\n` +
+            "Continue working on the task. When it is really done, " +
+            (progress.output_schema
+              ? `call the ${COMPLETION_TOOL_NAME} tool again.`
+              : "output TASK_COMPLETE: again.");
+          return null;
+        }
+
+        // The reasoning of an unavailable check starts "Verification could not run:"
+        const error = verdict.unavailable
+          ? verdict.reasoning
+          : `Verification failed: ${verdict.reasoning}`;
+        const durationMs = Date.now() - startTime;
+        await finalize("failed", {
+          success: false,
+          summary,
+          steps: meaningfulSteps,
+          durationMs,
+          verified: false,
+          verificationReasoning: verdict.reasoning,
+          error,
+        });
+        return {
+          task_id: taskId,
+          status: "failed",
+          success: false,
+          summary,
+          steps,
+          steps_taken: meaningfulSteps,
+          duration_ms: durationMs,
+          screen_size: { width: screenWidth, height: screenHeight },
+          usage,
+          verified: false,
+          verification_reasoning: verdict.reasoning,
+          error,
+        };
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    await finalize("completed", {
+      success: true,
+      summary,
+      steps: meaningfulSteps,
+      durationMs,
+      ...(verdict
+        ? { verified: verdict.verified, verificationReasoning: verdict.reasoning }
+        : {}),
+      data,
+    });
+    return {
+      task_id: taskId,
+      status: "completed",
+      success: true,
+      summary,
+      steps,
+      steps_taken: meaningfulSteps,
+      duration_ms: durationMs,
+      screen_size: { width: screenWidth, height: screenHeight },
+      usage,
+      ...(verdict
+        ? { verified: verdict.verified, verification_reasoning: verdict.reasoning }
+        : {}),
+      ...(data !== undefined ? { data } : {}),
+    };
+  };
+
+  /**
+   * Release held input, finalize the task as stopped early, and build the result
+   */
+  const finishEarly = async (
+    status: "cancelled" | "failed",
+    summary: string,
+    error: string
+  ): Promise<TaskResult> => {
+    await releaseHeldKeys(computer, heldKeys);
+    if (mouseButtonHeld) {
+      await releaseMouseButton(computer);
+      mouseButtonHeld = false;
+    }
+
+    const durationMs = Date.now() - startTime;
+    await finalize(status, {
+      success: false,
+      summary,
+      steps: meaningfulSteps,
+      durationMs,
+      error,
+    });
+
+    return {
+      task_id: taskId,
+      status,
+      success: false,
+      summary,
+      steps,
+      steps_taken: meaningfulSteps,
+      duration_ms: durationMs,
+      screen_size: { width: screenWidth, height: screenHeight },
+      usage,
+      error,
+    };
+  };
+
+  const finishCancelled = () =>
+    finishEarly("cancelled", "Task cancelled", "Cancelled by request");
 
   while (meaningfulSteps < maxSteps && totalIterations < maxTotalIterations) {
     totalIterations++;
 
+    // Check control requests between iterations (cancel, pause, messages)
+    let control = await getTaskControl(tenantId, taskId);
+    if (cancelRequested || control?.cancel_requested_at) {
+      console.log(`[Agent] Task ${taskId} cancelled`);
+      return await finishCancelled();
+    }
+
+    // Idle while paused - no Anthropic calls until resumed, cancelled,
+    // timed out, or this invocation's budget runs out
+    if (control?.paused) {
+      console.log(`[Agent] Task ${taskId} paused`);
+      progress.status = "paused";
+      events.append({ type: "status", status: "paused" });
+      await indexTask(tenantId, progress);
+      while (
+        control?.paused &&
+        !control.cancel_requested_at &&
+        Date.now() - startTime <= timeoutSeconds * 1000 &&
+        Date.now() <= invocationDeadline
+      ) {
+        progress.updated_at = Date.now();
+        progress.elapsed_ms = Date.now() - startTime;
+        await updateProgress(tenantId, taskId, progress);
+        await sleep(PAUSE_POLL_INTERVAL_MS);
+        control = await getTaskControl(tenantId, taskId);
+      }
+
+      if (control?.cancel_requested_at) {
+        console.log(`[Agent] Task ${taskId} cancelled while paused`);
+        return await finishCancelled();
+      }
+      if (!control?.paused) {
+        console.log(`[Agent] Task ${taskId} resumed`);
+        progress.status = "running";
+        events.append({ type: "status", status: "running" });
+        await indexTask(tenantId, progress);
+        await updateProgress(tenantId, taskId, progress);
+      }
+    }
+
+    // Inject operator messages queued since the last iteration
+    const pendingMessages = control?.messages?.slice(deliveredMessages) ?? [];
+    if (pendingMessages.length > 0) {
+      for (const message of pendingMessages) {
+        appendUserText(messages, `Message from the operator: ${message.text}`);
+        events.append({ type: "message", text: message.text });
+        steps.push({
+          step: steps.length + 1,
+          action: "user_message",
+          result: message.text,
+          success: true,
+        });
+        progress.steps_summary.push(summarizeMessage(message.text));
+        if (progress.steps_summary.length > 5) {
+          progress.steps_summary.shift();
+        }
+      }
+      deliveredMessages += pendingMessages.length;
+      console.log(
+        `[Agent] Injected ${pendingMessages.length} operator message(s) into task ${taskId}`
+      );
+      progress.updated_at = Date.now();
+      progress.elapsed_ms = Date.now() - startTime;
+      await updateProgress(tenantId, taskId, progress);
+    }
+
     // Check timeout
     const elapsed = Date.now() - startTime;
     if (elapsed > timeoutSeconds * 1000) {
-      await finalizeTask(taskId, progress, "timeout", {
+      await finalize("timeout", {
         success: false,
         summary: "Task timed out",
         steps: meaningfulSteps,
@@ -355,14 +1095,61 @@ export async function executeTask(
 
       return {
         task_id: taskId,
+        status: "timeout",
         success: false,
         summary: "Task timed out",
         steps,
         steps_taken: meaningfulSteps,
         duration_ms: elapsed,
-        screen_size: { width: displayWidth, height: displayHeight },
+        screen_size: { width: screenWidth, height: screenHeight },
+        usage,
         error: `Timeout after ${timeoutSeconds}s`,
-        progress_url: progressUrl,
+      };
+    }
+
+    // Checkpoint and hand off before the function's maxDuration is reached.
+    // The iteration is undone so the next invocation starts it afresh.
+    if (continuation && Date.now() > invocationDeadline) {
+      totalIterations--;
+      const next = buildCheckpoint();
+      try {
+        await events.flush();
+        await saveCheckpoint(tenantId, next);
+        await continuation.schedule(taskId, next.invocation);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        const durationMs = Date.now() - startTime;
+        console.error(`[Agent] Failed to hand off task ${taskId}:`, err);
+
+        await finalize("failed", {
+          success: false,
+          summary: `Failed to continue task: ${errorMsg}`,
+          steps: meaningfulSteps,
+          durationMs,
+          error: errorMsg,
+        });
+
+        return {
+          task_id: taskId,
+          status: "failed",
+          success: false,
+          summary: `Failed to continue task: ${errorMsg}`,
+          steps,
+          steps_taken: meaningfulSteps,
+          duration_ms: durationMs,
+          screen_size: { width: screenWidth, height: screenHeight },
+          usage,
+          error: errorMsg,
+        };
+      }
+
+      console.log(
+        `[Agent] Task ${taskId} handed off to invocation ${next.invocation}`
+      );
+      return {
+        task_id: taskId,
+        status: "suspended",
+        invocation: next.invocation,
       };
     }
 
@@ -385,7 +1172,9 @@ export async function executeTask(
             display_number: 1,
           };
 
-      // Use a heartbeat to update progress while waiting for API response
+      // Use a heartbeat to update progress while waiting for API response.
+      // The heartbeat also polls for cancellation and aborts the request.
+      const abortController = new AbortController();
       let heartbeatInterval: ReturnType<typeof setInterval> | undefined;
       const startHeartbeat = () => {
         heartbeatInterval = setInterval(async () => {
@@ -395,7 +1184,12 @@ export async function executeTask(
             updated_at: Date.now(),
             elapsed_ms: Date.now() - startTime,
           };
-          await updateProgress(taskId, snapshot);
+          await updateProgress(tenantId, taskId, snapshot);
+
+          if (!cancelRequested && (await isCancellationRequested(tenantId, taskId))) {
+            cancelRequested = true;
+            abortController.abort();
+          }
         }, HEARTBEAT_INTERVAL_MS);
       };
       const stopHeartbeat = () => {
@@ -405,21 +1199,55 @@ export async function executeTask(
         }
       };
 
+      // Prompt caching: breakpoints after the tool definition, the system
+      // prompt and the latest turns, so each request only pays full price
+      // for what is new since the previous one
+      const cacheControl = { type: "ephemeral" as const };
+      const systemPrompt = progress.output_schema
+        ? SYSTEM_PROMPT + STRUCTURED_RESULT_PROMPT
+        : SYSTEM_PROMPT;
+      const system: string | Anthropic.Beta.BetaTextBlockParam[] = modelConfig.promptCaching
+        ? [{ type: "text", text: systemPrompt, cache_control: cacheControl }]
+        : systemPrompt;
+      const tools: Anthropic.Beta.BetaToolUnion[] = [computerTool];
+      if (progress.output_schema) {
+        tools.push(completionTool(progress.output_schema));
+      }
+      if (modelConfig.promptCaching) {
+        tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: cacheControl };
+      }
+      const requestMessages = modelConfig.promptCaching
+        ? withCacheBreakpoints(messages, PROMPT_CACHE_MESSAGE_BREAKPOINTS)
+        : messages;
+
       startHeartbeat();
       let response: Anthropic.Beta.BetaMessage;
       try {
-        response = await anthropic.beta.messages.create({
-          model: modelConfig.model,
-          max_tokens: 4096,
-          system: SYSTEM_PROMPT,
-          tools: [computerTool],
-          messages,
-          betas: [modelConfig.betaFlag],
-        });
+        response = await anthropic.beta.messages.create(
+          {
+            model: modelConfig.model,
+            max_tokens: 4096,
+            system,
+            tools,
+            messages: requestMessages,
+            betas: [modelConfig.betaFlag],
+          },
+          { signal: abortController.signal }
+        );
       } finally {
         stopHeartbeat();
       }
 
+      // Account for the request's tokens and stop once the budget is spent
+      const iterationUsage = requestUsage(response.usage, modelConfig.pricing);
+      addUsage(usage, iterationUsage);
+      events.append({ type: "usage", usage: iterationUsage });
+      const budgetError = checkBudget(usage, progress.budget);
+      if (budgetError) {
+        console.log(`[Agent] Task ${taskId} stopped: ${budgetError}`);
+        return await finishEarly("failed", "Task stopped: budget exceeded", budgetError);
+      }
+
       // Process response
       const toolResults: Anthropic.Beta.BetaToolResultBlockParam[] = [];
 
@@ -431,37 +1259,24 @@ export async function executeTask(
             !block.text.includes("TASK_FAILED:")
           ) {
             lastReasoning = block.text.trim();
+            events.append({ type: "reasoning", text: lastReasoning });
           }
 
-          // Check for task completion
+          // Check for task completion (verified first in verify mode)
           if (block.text.includes("TASK_COMPLETE:")) {
             const summary = block.text.split("TASK_COMPLETE:")[1].trim();
-            const durationMs = Date.now() - startTime;
-
-            await finalizeTask(taskId, progress, "completed", {
-              success: true,
-              summary,
-              steps: meaningfulSteps,
-              durationMs,
-            });
-
-            return {
-              task_id: taskId,
-              success: true,
-              summary,
-              steps,
-              steps_taken: meaningfulSteps,
-              duration_ms: durationMs,
-              screen_size: { width: displayWidth, height: displayHeight },
-              progress_url: progressUrl,
-            };
+            const completed = await complete(summary);
+            if (completed) {
+              return completed;
+            }
+            continue;
           }
 
           if (block.text.includes("TASK_FAILED:")) {
             const reason = block.text.split("TASK_FAILED:")[1].trim();
             const durationMs = Date.now() - startTime;
 
-            await finalizeTask(taskId, progress, "failed", {
+            await finalize("failed", {
               success: false,
               summary: reason,
               steps: meaningfulSteps,
@@ -471,26 +1286,70 @@ export async function executeTask(
 
             return {
               task_id: taskId,
+              status: "failed",
               success: false,
               summary: reason,
               steps,
               steps_taken: meaningfulSteps,
               duration_ms: durationMs,
+              usage,
               error: "Task failed",
-              progress_url: progressUrl,
             };
           }
         }
 
+        // Structured result: accepted only if it matches the output schema
+        if (block.type === "tool_use" && block.name === COMPLETION_TOOL_NAME) {
+          const errors = progress.output_schema
+            ? validateJson(block.input, progress.output_schema)
+            : [`${COMPLETION_TOOL_NAME} is not available for this task`];
+          if (errors.length > 0) {
+            const error = `Result does not match the output schema: ${errors.join("; ")}`;
+            events.append({ type: "error", text: error });
+            toolResults.push({
+              type: "tool_result",
+              tool_use_id: block.id,
+              content: `${error}\n\nFix these problems and call ${COMPLETION_TOOL_NAME} again.`,
+              is_error: true,
+            });
+            continue;
+          }
+
+          const completed = await complete(
+            lastReasoning ?? "Task completed",
+            block.input as Record<string, unknown>
+          );
+          if (completed) {
+            return completed;
+          }
+          toolResults.push({
+            type: "tool_result",
+            tool_use_id: block.id,
+            content: completionFeedback!,
+            is_error: true,
+          });
+          completionFeedback = undefined;
+          continue;
+        }
+
         if (block.type === "tool_use") {
           const input = block.input as ActionInput;
 
+          // Steps record where the action landed on the real screen
           const stepRecord: AgentStep = {
             step: steps.length + 1,
             action: input.action,
-            coordinates: input.coordinate,
+            coordinates: input.coordinate
+              ? toScreenCoordinates(input.coordinate[0], input.coordinate[1], actionContext)
+              : undefined,
             success: true,
           };
+          events.append({
+            type: "action",
+            step: stepRecord.step,
+            action: input.action,
+            input: redactActionInput(input),
+          });
 
           // Look up handler in registry
           const handler = ACTION_HANDLERS[input.action];
@@ -498,6 +1357,12 @@ export async function executeTask(
             stepRecord.success = false;
             stepRecord.error = `Unknown action: ${input.action}`;
             steps.push(stepRecord);
+            events.append({
+              type: "error",
+              step: stepRecord.step,
+              action: input.action,
+              text: stepRecord.error,
+            });
             toolResults.push({
               type: "tool_result",
               tool_use_id: block.id,
@@ -507,12 +1372,24 @@ export async function executeTask(
             continue;
           }
 
+          // Store the screen the model saw before acting on it
+          if (
+            progress.capture_screenshots &&
+            lastScreenshot &&
+            !OBSERVATION_ACTIONS.has(input.action)
+          ) {
+            if (!lastScreenshotName) {
+              const name = stepScreenshotName(stepRecord.step);
+              if (await saveScreenshot(tenantId, taskId, name, lastScreenshot)) {
+                lastScreenshotName = name;
+              }
+            }
+            stepRecord.screenshot = lastScreenshotName;
+          }
+
           try {
             // Execute the action handler
-            const result = await handler(input, computer, {
-              displayWidth,
-              displayHeight,
-            });
+            const result = await handler(input, computer, actionContext);
 
             stepRecord.success = result.success;
             if (result.error) stepRecord.error = result.error;
@@ -522,6 +1399,29 @@ export async function executeTask(
             if (lastReasoning) stepRecord.reasoning = lastReasoning;
 
             steps.push(stepRecord);
+            if (input.action === "screenshot" && result.success) {
+              lastScreenshot = getResultImage(result.content);
+              lastScreenshotName = undefined;
+              loopDetector.recordScreen(
+                lastScreenshot && screenFingerprint(lastScreenshot)
+              );
+            } else if (!OBSERVATION_ACTIONS.has(input.action)) {
+              loopDetector.recordAction(input);
+            }
+            events.append({
+              type: "tool_result",
+              step: stepRecord.step,
+              action: input.action,
+              success: stepRecord.success,
+              text: stepRecord.error ?? stepRecord.result,
+            });
+
+            // Track mouse button state so it can be released on cancel
+            if (input.action === "left_mouse_down" && result.success) {
+              mouseButtonHeld = true;
+            } else if (input.action === "left_mouse_up" && result.success) {
+              mouseButtonHeld = false;
+            }
 
             // Track held keys for auto-release
             if (input.action === "hold_key" && result.success) {
@@ -536,15 +1436,7 @@ export async function executeTask(
             // This simulates the expected modifier key behavior: hold_key → action → release
             if (!NO_AUTO_RELEASE_ACTIONS.has(input.action) && heldKeys.size > 0) {
               console.log(`[Agent] Auto-releasing ${heldKeys.size} held keys after ${input.action}`);
-              for (const key of heldKeys) {
-                try {
-                  await computer.keyUp(key);
-                  console.log(`[Agent] Auto-released key: ${key}`);
-                } catch (err) {
-                  console.warn(`[Agent] Failed to auto-release key ${key}:`, err);
-                }
-              }
-              heldKeys.clear();
+              await releaseHeldKeys(computer, heldKeys);
             }
 
             // Update progress for meaningful actions (not screenshots/zoom)
@@ -562,19 +1454,20 @@ export async function executeTask(
                     ? result.content
                     : undefined,
                 success: stepRecord.success,
-                coordinates: input.coordinate,
+                coordinates: stepRecord.coordinates,
               };
               progress.last_reasoning = lastReasoning;
 
               // Maintain rolling summary (last 5 actions)
-              const summary = summarizeAction(input.action, input.coordinate);
+              const summary = summarizeAction(input.action, stepRecord.coordinates);
               progress.steps_summary.push(summary);
               if (progress.steps_summary.length > 5) {
                 progress.steps_summary.shift();
               }
 
               // Update progress (await to ensure it completes before next action)
-              await updateProgress(taskId, progress);
+              await updateProgress(tenantId, taskId, progress);
+              options.onProgress?.(progress);
             }
 
             toolResults.push({
@@ -592,6 +1485,12 @@ export async function executeTask(
             stepRecord.success = false;
             stepRecord.error = err instanceof Error ? err.message : String(err);
             steps.push(stepRecord);
+            events.append({
+              type: "error",
+              step: stepRecord.step,
+              action: input.action,
+              text: stepRecord.error,
+            });
 
             // Log error for debugging
             console.error(
@@ -622,40 +1521,78 @@ export async function executeTask(
         });
       }
 
-      // Trim message history to prevent context bloat from accumulated screenshots
-      trimMessageHistory(messages);
+      // Send the agent back to work after a completion was not accepted
+      const sentBack = completionFeedback !== undefined;
+      if (completionFeedback) {
+        appendUserText(messages, completionFeedback);
+        completionFeedback = undefined;
+      }
+
+      // Strip older screenshots so the history stays within its limits, and
+      // fold any exchanges that had to be dropped into the task memory
+      const dropped = compactMessageHistory(messages, historyLimits);
+      if (dropped.length > 0) {
+        const update = await updateTaskMemory(anthropic, modelConfig, task, memory, dropped);
+        if (update.usage) {
+          const memoryUsage = requestUsage(update.usage, modelConfig.pricing);
+          addUsage(usage, memoryUsage);
+          events.append({ type: "usage", usage: memoryUsage });
+        }
+        memory = update.memory;
+        setTaskPrompt(messages, taskPrompt(task, memory));
+        events.append({ type: "memory", text: memory });
+      }
+
+      // Nudge the agent out of a loop, and stop it if the loop persists
+      const loop = loopDetector.check();
+      if (loop?.kind === "warn") {
+        console.log(`[Agent] Task ${taskId} looks stuck (${loop.reason}); warning the agent`);
+        events.append({ type: "error", text: `Loop detected: ${loop.reason}` });
+        appendUserText(messages, loop.message);
+      } else if (loop?.kind === "stuck") {
+        console.log(`[Agent] Task ${taskId} stopped: ${loop.error}`);
+        return await finishEarly("failed", "Task stopped: stuck in a loop", loop.error);
+      }
+
+      // Periodic checkpoint so loop state survives in storage
+      if (continuation && totalIterations % CHECKPOINT_INTERVAL_ITERATIONS === 0) {
+        try {
+          await events.flush();
+          await saveCheckpoint(tenantId, buildCheckpoint());
+        } catch (err) {
+          console.warn(`[Agent] Failed to save checkpoint for ${taskId}:`, err);
+        }
+      }
 
       // If the model stopped without tool use and without completion markers
-      if (response.stop_reason === "end_turn" && toolResults.length === 0) {
+      if (
+        response.stop_reason === "end_turn" &&
+        toolResults.length === 0 &&
+        !sentBack
+      ) {
         // Check final text for any summary
         const lastText = response.content.find((b) => b.type === "text");
         const summaryText =
           lastText?.type === "text" ? lastText.text : "Task completed";
-        const durationMs = Date.now() - startTime;
-
-        await finalizeTask(taskId, progress, "completed", {
-          success: true,
-          summary: summaryText,
-          steps: meaningfulSteps,
-          durationMs,
-        });
-
-        return {
-          task_id: taskId,
-          success: true,
-          summary: summaryText,
-          steps,
-          steps_taken: meaningfulSteps,
-          duration_ms: durationMs,
-          screen_size: { width: displayWidth, height: displayHeight },
-          progress_url: progressUrl,
-        };
+        const completed = await complete(summaryText);
+        if (completed) {
+          return completed;
+        }
+        appendUserText(messages, completionFeedback!);
+        completionFeedback = undefined;
       }
     } catch (err) {
+      // An aborted API request means the heartbeat saw a cancellation
+      if (cancelRequested) {
+        console.log(`[Agent] Task ${taskId} cancelled during API request`);
+        return await finishCancelled();
+      }
+
       const errorMsg = err instanceof Error ? err.message : String(err);
       const durationMs = Date.now() - startTime;
+      events.append({ type: "error", text: errorMsg });
 
-      await finalizeTask(taskId, progress, "failed", {
+      await finalize("failed", {
         success: false,
         summary: `Agent error: ${errorMsg}`,
         steps: meaningfulSteps,
@@ -665,14 +1602,15 @@ export async function executeTask(
 
       return {
         task_id: taskId,
+        status: "failed",
         success: false,
         summary: `Agent error: ${errorMsg}`,
         steps,
         steps_taken: meaningfulSteps,
         duration_ms: durationMs,
-        screen_size: { width: displayWidth, height: displayHeight },
+        screen_size: { width: screenWidth, height: screenHeight },
+        usage,
         error: errorMsg,
-        progress_url: progressUrl,
       };
     }
   }
@@ -684,7 +1622,7 @@ export async function executeTask(
       ? `Reached ${maxSteps} action limit (${meaningfulSteps} actions taken)`
       : `Safety limit reached (${totalIterations} total iterations)`;
 
-  await finalizeTask(taskId, progress, "failed", {
+  await finalize("failed", {
     success: false,
     summary: "Max steps exceeded without completing task",
     steps: meaningfulSteps,
@@ -694,14 +1632,15 @@ export async function executeTask(
 
   return {
     task_id: taskId,
+    status: "failed",
     success: false,
     summary: "Max steps exceeded without completing task",
     steps,
     steps_taken: meaningfulSteps,
     duration_ms: durationMs,
-    screen_size: { width: displayWidth, height: displayHeight },
+    screen_size: { width: screenWidth, height: screenHeight },
+    usage,
     error: errorMsg,
-    progress_url: progressUrl,
   };
 }
 
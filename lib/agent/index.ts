@@ -20,10 +20,21 @@
 // ============================================
 
 export type {
+  TaskStatus,
   AgentStep,
   TaskResult,
   ScreenDescription,
   TaskProgress,
+  CallbackDelivery,
+  TaskEvent,
+  TaskEventType,
+  TokenUsage,
+  TaskBudget,
+  TaskVerification,
+  TaskCheckpoint,
+  LoopDetectionState,
+  TaskSuspension,
+  ExecuteTaskOptions,
   ActionInput,
   ActionContext,
   ActionResult,
@@ -39,9 +50,33 @@ export {
   MAX_STEPS_LIMIT,
   DEFAULT_TIMEOUT_SECONDS,
   MAX_TIMEOUT_SECONDS,
+  // Resumable tasks
+  DEFAULT_MAX_RESUMABLE_TIMEOUT_SECONDS,
+  INVOCATION_BUDGET_SECONDS,
+  CHECKPOINT_INTERVAL_ITERATIONS,
+  getMaxResumableTimeoutSeconds,
   // Validation constants
   SANDBOX_NAME_MAX_LENGTH,
   TASK_ID_MAX_LENGTH,
+  TASK_MESSAGE_MAX_LENGTH,
+  // Task listing
+  LIST_TASKS_DEFAULT_LIMIT,
+  LIST_TASKS_MAX_LIMIT,
+  LIST_TASKS_MAX_SCAN,
+  INDEX_READ_CONCURRENCY,
+  // Event log
+  TASK_EVENTS_DEFAULT_LIMIT,
+  TASK_EVENTS_MAX_LIMIT,
+  TASK_EVENT_TEXT_MAX_LENGTH,
+  // Screenshot capture
+  SCREENSHOT_REFERENCE_TTL_SECONDS,
+  // Structured results
+  COMPLETION_TOOL_NAME,
+  OUTPUT_SCHEMA_MAX_LENGTH,
+  // Retention
+  DEFAULT_RETENTION_DAYS,
+  RETENTION_SWEEP_INTERVAL_MS,
+  getRetentionPolicy,
   // Display defaults
   DEFAULT_DISPLAY_WIDTH,
   DEFAULT_DISPLAY_HEIGHT,
@@ -54,15 +89,19 @@ export {
   RETRY_BACKOFF_BASE_MS,
   MAX_WAIT_MS,
   HEARTBEAT_INTERVAL_MS,
+  PAUSE_POLL_INTERVAL_MS,
   UI_SETTLE_DELAY_MS,
   ANTHROPIC_MAX_RETRIES,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_TIMEOUT_MS,
   // Model configuration
   MODEL_CONFIGS,
   DEFAULT_MODEL,
   getModelConfig,
 } from "./config.js";
 
-export type { ModelConfig } from "./config.js";
+export type { ModelConfig, ModelPricing, RetentionPolicy } from "./config.js";
 
 // ============================================
 // Validation
@@ -76,6 +115,45 @@ export type {
   InvalidCoordinates,
 } from "./validation.js";
 
+// ============================================
+// Completion Verification
+// ============================================
+
+export { verifyCompletion } from "./verify.js";
+
+export type { VerificationVerdict } from "./verify.js";
+
+// ============================================
+// Structured Results
+// ============================================
+
+export { checkOutputSchema, validateJson } from "./json-schema.js";
+
+export type { JsonSchema } from "./json-schema.js";
+
+// ============================================
+// Loop Detection
+// ============================================
+
+export { LoopDetector, screenFingerprint, STUCK_ERROR_PREFIX } from "./loop-detection.js";
+
+export type { LoopVerdict } from "./loop-detection.js";
+
+// ============================================
+// Screen Scaling
+// ============================================
+
+export {
+  getScaledSize,
+  isScaled,
+  toScreenCoordinates,
+  scaleScreenshot,
+} from "./scaling.js";
+
+export { decodePng, encodePng, resizeImage, resizePng } from "./png.js";
+
+export type { RawImage } from "./png.js";
+
 // ============================================
 // Utils
 // ============================================
@@ -91,8 +169,137 @@ export {
   initializeProgress,
   finalizeTask,
   summarizeAction,
+  summarizeMessage,
 } from "./progress.js";
 
+// ============================================
+// Task Index
+// ============================================
+
+export { indexTask, listTasks, loadTaskIndex } from "./task-index.js";
+
+export type {
+  TaskIndexEntry,
+  TaskListQuery,
+  TaskListPage,
+} from "./task-index.js";
+
+// ============================================
+// Event Log
+// ============================================
+
+export { TaskEventLog, listTaskEvents } from "./events.js";
+
+export type { TaskEventInput, TaskEventPage } from "./events.js";
+
+// ============================================
+// Screenshot Capture
+// ============================================
+
+export {
+  saveScreenshot,
+  loadScreenshot,
+  listScreenshots,
+  stepScreenshotName,
+  createScreenshotReference,
+  verifyScreenshotReference,
+  FINAL_SCREENSHOT,
+} from "./screenshots.js";
+
+export type {
+  ScreenshotImage,
+  StoredScreenshot,
+  ScreenshotInfo,
+  ScreenshotReference,
+} from "./screenshots.js";
+
+// ============================================
+// Token Usage
+// ============================================
+
+export { emptyUsage, requestUsage, addUsage, checkBudget } from "./usage.js";
+
+// ============================================
+// Task Memory
+// ============================================
+
+export { updateTaskMemory, renderTranscript } from "./memory.js";
+
+export type { TaskMemoryUpdate } from "./memory.js";
+
+// ============================================
+// Reports
+// ============================================
+
+export {
+  generateTaskReport,
+  loadTaskReport,
+  REPORT_EXTENSIONS,
+  REPORT_MIME_TYPES,
+} from "./report.js";
+
+export type { ReportFormat, TaskReport } from "./report.js";
+
+// ============================================
+// Retention
+// ============================================
+
+export {
+  purgeTasks,
+  sweepExpiredTasks,
+  getLastSweep,
+  deleteTaskRecords,
+} from "./retention.js";
+
+export type { PurgeReport, PurgedTask, PurgeOptions } from "./retention.js";
+
+// ============================================
+// Task Control
+// ============================================
+
+export {
+  getTaskControl,
+  requestCancellation,
+  isCancellationRequested,
+  setTaskPaused,
+  queueTaskMessage,
+} from "./control.js";
+
+export type { TaskControl, TaskMessage } from "./control.js";
+
+// ============================================
+// Checkpoints & Continuation
+// ============================================
+
+export {
+  saveCheckpoint,
+  loadCheckpoint,
+  claimCheckpoint,
+  deleteCheckpoint,
+} from "./checkpoint.js";
+
+export {
+  isContinuationEnabled,
+  signContinuation,
+  verifyContinuation,
+  scheduleContinuation,
+  CONTINUATION_TASK_HEADER,
+  CONTINUATION_INVOCATION_HEADER,
+  CONTINUATION_SIGNATURE_HEADER,
+} from "./continuation.js";
+
+// ============================================
+// Completion Callbacks
+// ============================================
+
+export {
+  isWebhookEnabled,
+  signWebhook,
+  validateCallbackUrl,
+  deliverTaskCallback,
+  TASK_FINISHED_EVENT,
+} from "./webhook.js";
+
 // ============================================
 // Execution
 // ============================================
@@ -0,0 +1,295 @@
+/**
+ * JSON Schema Validation
+ *
+ * Validates task results against the output_schema given to run_task.
+ * Supports the subset of JSON Schema that describes plain data - types,
+ * properties, items, enums, combinators and simple bounds. Schemas using
+ * anything else (such as $ref) are rejected up front rather than checked
+ * loosely.
+ */
+
+import { compilePattern } from "./pattern.js";
+import { SCHEMA_PATTERN_MAX_LENGTH, SCHEMA_PATTERN_INPUT_MAX_LENGTH } from "./config.js";
+
+/**
+ * A JSON Schema object
+ */
+export type JsonSchema = Record<string, unknown>;
+
+const JSON_TYPES = new Set([
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+]);
+
+// Keywords that only describe a schema and never fail validation
+const ANNOTATION_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "format",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+]);
+
+const SCHEMA_KEYWORDS = new Set(["properties", "additionalProperties", "items"]);
+const SCHEMA_LIST_KEYWORDS = new Set(["anyOf", "oneOf", "allOf"]);
+const VALUE_KEYWORDS = new Set([
+  "type",
+  "required",
+  "enum",
+  "const",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minItems",
+  "maxItems",
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============================================
+// Schema Checks
+// ============================================
+
+function checkSchema(schema: unknown, path: string, errors: string[]): void {
+  if (typeof schema === "boolean") {
+    return;
+  }
+  if (!isObject(schema)) {
+    errors.push(`${path} must be a schema object`);
+    return;
+  }
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${path}.${keyword}`;
+    if (ANNOTATION_KEYWORDS.has(keyword) || VALUE_KEYWORDS.has(keyword)) {
+      continue;
+    }
+    if (keyword === "properties") {
+      if (!isObject(value)) {
+        errors.push(`${at} must be an object`);
+        continue;
+      }
+      for (const [name, property] of Object.entries(value)) {
+        checkSchema(property, `${at}.${name}`, errors);
+      }
+    } else if (SCHEMA_KEYWORDS.has(keyword)) {
+      checkSchema(value, at, errors);
+    } else if (SCHEMA_LIST_KEYWORDS.has(keyword)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${at} must be a non-empty array of schemas`);
+        continue;
+      }
+      value.forEach((item, i) => checkSchema(item, `${at}[${i}]`, errors));
+    } else {
+      errors.push(`${at} is not supported`);
+    }
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+  for (const type of types) {
+    if (typeof type !== "string" || !JSON_TYPES.has(type)) {
+      errors.push(`${path}.type has unknown type ${JSON.stringify(type)}`);
+    }
+  }
+  if (schema.pattern !== undefined) {
+    const pattern = String(schema.pattern);
+    if (pattern.length > SCHEMA_PATTERN_MAX_LENGTH) {
+      errors.push(`${path}.pattern exceeds ${SCHEMA_PATTERN_MAX_LENGTH} characters`);
+    } else {
+      try {
+        new RegExp(pattern, "u");
+      } catch {
+        errors.push(`${path}.pattern is not a valid regular expression`);
+        return;
+      }
+      try {
+        compilePattern(pattern);
+      } catch (err) {
+        errors.push(`${path}.pattern is not supported: ${(err as Error).message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Check that an output_schema can be used for a task: an object schema
+ * using only supported keywords
+ *
+ * @param schema - Schema from run_task
+ * @returns An error message, or null if the schema is usable
+ */
+export function checkOutputSchema(schema: unknown): string | null {
+  if (!isObject(schema)) {
+    return "output_schema must be a JSON Schema object";
+  }
+  if (schema.type !== "object") {
+    return 'output_schema must describe an object (type: "object")';
+  }
+  const errors: string[] = [];
+  checkSchema(schema, "output_schema", errors);
+  return errors.length > 0 ? errors.join("; ") : null;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function validate(value: unknown, schema: unknown, path: string, errors: string[]): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push(`${path} is not allowed`);
+    return;
+  }
+  if (!isObject(schema)) {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(" or ")} (got ${typeOf(value)})`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(value, option))) {
+    errors.push(`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      errors.push(`${path} must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      errors.push(`${path} must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    const length = [...value].length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      if (value.length > SCHEMA_PATTERN_INPUT_MAX_LENGTH) {
+        errors.push(
+          `${path} must be at most ${SCHEMA_PATTERN_INPUT_MAX_LENGTH} characters to be checked against its pattern`
+        );
+      } else if (!compilePattern(schema.pattern).test(value)) {
+        errors.push(`${path} must match ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => validate(item, schema.items, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (typeof name === "string" && !Object.hasOwn(value, name)) {
+          errors.push(`${path}.${name} is required`);
+        }
+      }
+    }
+    for (const [name, property] of Object.entries(value)) {
+      if (Object.hasOwn(properties, name)) {
+        validate(property, properties[name], `${path}.${name}`, errors);
+      } else if (schema.additionalProperties !== undefined) {
+        validate(property, schema.additionalProperties, `${path}.${name}`, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf) {
+      validate(value, option, path, errors);
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some((option) => validateJson(value, option, path).length === 0);
+    if (!matches) {
+      errors.push(`${path} must match at least one of the anyOf schemas`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((option) => validateJson(value, option, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path} must match exactly one of the oneOf schemas (matched ${matches})`);
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param value - Value to check
+ * @param schema - Schema accepted by checkOutputSchema
+ * @param path - Name of the value in error messages
+ * @returns Validation errors (empty if the value is valid)
+ */
+export function validateJson(value: unknown, schema: unknown, path: string = "$"): string[] {
+  const errors: string[] = [];
+  validate(value, schema, path, errors);
+  return errors;
+}
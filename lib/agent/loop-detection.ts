@@ -0,0 +1,192 @@
+/**
+ * Loop Detection
+ *
+ * Notices when the agent is stuck: repeating the same action on the same
+ * spot, or acting without the screen visibly changing. The first time, the
+ * agent is told to change approach; if the loop persists the task fails
+ * with a "stuck" error instead of burning the rest of its step budget.
+ */
+
+import type { ActionInput, LoopDetectionState } from "./types.js";
+import type { ScreenshotImage } from "./screenshots.js";
+import { decodePng, resizeImage } from "./png.js";
+import {
+  LOOP_REPEAT_THRESHOLD,
+  LOOP_UNCHANGED_SCREEN_THRESHOLD,
+  LOOP_COORDINATE_TOLERANCE,
+  LOOP_MAX_WARNINGS,
+  LOOP_WARNING_WINDOW_ACTIONS,
+  SCREEN_FINGERPRINT_WIDTH,
+  SCREEN_CHANGE_THRESHOLD,
+} from "./config.js";
+
+/** Prefix of the error a task fails with when it is stuck */
+export const STUCK_ERROR_PREFIX = "Task stuck:";
+
+// Actions that are legitimately repeated while the screen moves on
+const REPEATABLE_ACTIONS = new Set(["scroll", "key", "wait"]);
+
+/**
+ * What to do about a detected loop
+ */
+export type LoopVerdict =
+  | { kind: "warn"; reason: string; message: string }
+  | { kind: "stuck"; reason: string; error: string };
+
+/**
+ * Fingerprint a screenshot as a small grayscale thumbnail
+ *
+ * @param image - Screenshot as sent to the model
+ * @returns Base64 thumbnail, or undefined if the image cannot be decoded
+ */
+export function screenFingerprint(image: ScreenshotImage): string | undefined {
+  try {
+    const decoded = decodePng(Buffer.from(image.data, "base64"));
+    const width = Math.min(SCREEN_FINGERPRINT_WIDTH, decoded.width);
+    const height = Math.max(1, Math.round((decoded.height * width) / decoded.width));
+    const thumbnail = resizeImage(decoded, width, height);
+    const gray = Buffer.alloc(width * height);
+    for (let p = 0; p < gray.length; p++) {
+      const i = p * thumbnail.channels;
+      gray[p] = Math.round(
+        thumbnail.data[i] * 0.299 + thumbnail.data[i + 1] * 0.587 + thumbnail.data[i + 2] * 0.114
+      );
+    }
+    return gray.toString("base64");
+  } catch (err) {
+    console.warn("[Agent] Failed to fingerprint screenshot:", err);
+    return undefined;
+  }
+}
+
+function sameScreen(a: string, b: string): boolean {
+  const first = Buffer.from(a, "base64");
+  const second = Buffer.from(b, "base64");
+  if (first.length !== second.length) {
+    return false;
+  }
+  for (let i = 0; i < first.length; i++) {
+    if (Math.abs(first[i] - second[i]) > SCREEN_CHANGE_THRESHOLD) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Identical actions on roughly the same spot share a signature
+function actionSignature(input: ActionInput): string {
+  const spot = (coordinate?: [number, number]) =>
+    coordinate
+      ? coordinate.map((value) => Math.round(value / LOOP_COORDINATE_TOLERANCE)).join(",")
+      : "";
+  return JSON.stringify([
+    input.action,
+    spot(input.coordinate),
+    spot(input.start_coordinate),
+    input.text ?? input.key ?? "",
+  ]);
+}
+
+/**
+ * Tracks one task's recent actions and screens
+ */
+export class LoopDetector {
+  private readonly state: LoopDetectionState;
+
+  /**
+   * @param state - State from a checkpoint, when resuming
+   */
+  constructor(state?: LoopDetectionState) {
+    this.state = state
+      ? { ...state }
+      : { repeat_count: 0, unchanged_count: 0, actions: 0, warnings: 0 };
+  }
+
+  /**
+   * Record a meaningful action (not screenshot or zoom)
+   *
+   * @param input - Action input from the model
+   */
+  recordAction(input: ActionInput): void {
+    this.state.actions++;
+    const signature = actionSignature(input);
+    if (!REPEATABLE_ACTIONS.has(input.action) && signature === this.state.last_action) {
+      this.state.repeat_count++;
+    } else {
+      this.state.last_action = signature;
+      this.state.repeat_count = 1;
+    }
+
+    // Compare against the screen before the first action since the last screenshot
+    if (this.state.screen_before === undefined) {
+      this.state.screen_before = this.state.screen;
+    }
+  }
+
+  /**
+   * Record a full screenshot
+   *
+   * @param fingerprint - screenFingerprint of the screenshot, if available
+   */
+  recordScreen(fingerprint: string | undefined): void {
+    const before = this.state.screen_before;
+    if (before !== undefined && fingerprint !== undefined) {
+      this.state.unchanged_count = sameScreen(before, fingerprint)
+        ? this.state.unchanged_count + 1
+        : 0;
+    }
+    this.state.screen = fingerprint;
+    this.state.screen_before = undefined;
+  }
+
+  /**
+   * Check for a loop. A detected loop resets the counters, so the agent
+   * gets a fresh window to recover after a warning. Warnings expire after
+   * LOOP_WARNING_WINDOW_ACTIONS actions, so only a loop that persists
+   * after a recent warning fails the task.
+   *
+   * @returns What to do, or null if the agent is making progress
+   */
+  check(): LoopVerdict | null {
+    let reason: string | undefined;
+    if (this.state.repeat_count >= LOOP_REPEAT_THRESHOLD) {
+      reason = `the same action was repeated ${this.state.repeat_count} times`;
+    } else if (this.state.unchanged_count >= LOOP_UNCHANGED_SCREEN_THRESHOLD) {
+      reason = `the screen has not changed in ${this.state.unchanged_count} attempts`;
+    }
+    if (!reason) {
+      return null;
+    }
+
+    this.state.last_action = undefined;
+    this.state.repeat_count = 0;
+    this.state.unchanged_count = 0;
+
+    if (
+      this.state.last_warning_action !== undefined &&
+      this.state.actions - this.state.last_warning_action >= LOOP_WARNING_WINDOW_ACTIONS
+    ) {
+      this.state.warnings = 0;
+    }
+    if (this.state.warnings >= LOOP_MAX_WARNINGS) {
+      return { kind: "stuck", reason, error: `${STUCK_ERROR_PREFIX} ${reason}` };
+    }
+    this.state.warnings++;
+    this.state.last_warning_action = this.state.actions;
+    return {
+      kind: "warn",
+      reason,
+      message:
+        `You appear to be stuck: ${reason}. Stop repeating this approach. ` +
+        "Take a screenshot, look again at what is on the screen, and try something different. " +
+        "If the task cannot be completed, respond with TASK_FAILED: and the reason.",
+    };
+  }
+
+  /**
+   * Snapshot of the state for a checkpoint
+   */
+  toState(): LoopDetectionState {
+    return { ...this.state };
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Task Memory
+ *
+ * When the message history outgrows its limit, the oldest exchanges are
+ * dropped. Before they go, they are summarized into a short "progress so
+ * far" note - actions taken, facts learned, dead ends - that is kept in the
+ * task's first message, so the agent doesn't repeat what already failed.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { ActionInput } from "./types.js";
+import {
+  TASK_MEMORY_MAX_TOKENS,
+  TASK_MEMORY_FALLBACK_MAX_LENGTH,
+  TASK_MEMORY_ENTRY_MAX_LENGTH,
+  OMITTED_SCREENSHOT_TEXT,
+  COMPLETION_TOOL_NAME,
+  type ModelConfig,
+} from "./config.js";
+import { summarizeAction } from "./progress.js";
+
+/**
+ * Result of summarizing dropped exchanges
+ */
+export interface TaskMemoryUpdate {
+  /** The new task memory */
+  memory: string;
+  /** Usage of the summarization request, if it was made */
+  usage?: Anthropic.Beta.BetaUsage;
+}
+
+const MEMORY_PROMPT = `You maintain the memory of a computer use agent working on a long task. Older steps of its conversation are being removed to save space.
+
+Update the agent's "progress so far" note with the removed steps below. Keep it concise, as a bulleted list covering:
+- Actions taken and what they achieved
+- Facts learned (values, locations, states of the app)
+- Dead ends and failed approaches, so they are not repeated
+
+Merge with the existing note rather than appending a separate section. Reply with the updated note only.`;
+
+function clip(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > TASK_MEMORY_ENTRY_MAX_LENGTH
+    ? `${oneLine.slice(0, TASK_MEMORY_ENTRY_MAX_LENGTH - 3)}...`
+    : oneLine;
+}
+
+/**
+ * Render dropped exchanges as a text transcript (without images)
+ *
+ * @param messages - The dropped messages, oldest first
+ * @returns One line per reasoning, action, result and operator message
+ */
+export function renderTranscript(messages: Anthropic.Beta.BetaMessageParam[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      lines.push(`${message.role === "user" ? "Operator" : "Agent"}: ${clip(message.content)}`);
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === "text" && block.text !== OMITTED_SCREENSHOT_TEXT) {
+        lines.push(`${message.role === "user" ? "Operator" : "Agent"}: ${clip(block.text)}`);
+      } else if (block.type === "tool_use" && block.name === COMPLETION_TOOL_NAME) {
+        lines.push(`Result submitted: ${clip(JSON.stringify(block.input))}`);
+      } else if (block.type === "tool_use") {
+        const input = block.input as ActionInput;
+        // Typed text may be a secret; the memory is logged as an event
+        const detail =
+          input.action === "type" && input.text !== undefined
+            ? ` (${[...input.text].length} characters)`
+            : input.text
+              ? ` "${clip(input.text)}"`
+              : "";
+        lines.push(`Action: ${summarizeAction(input.action, input.coordinate)}${detail}`);
+      } else if (block.type === "tool_result") {
+        const texts =
+          typeof block.content === "string"
+            ? [block.content]
+            : (block.content ?? []).flatMap((inner) =>
+                inner.type === "text" && inner.text !== OMITTED_SCREENSHOT_TEXT
+                  ? [inner.text]
+                  : []
+              );
+        for (const text of texts) {
+          lines.push(`${block.is_error ? "Error" : "Result"}: ${clip(text)}`);
+        }
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Fold dropped exchanges into the task memory
+ * Falls back to appending the transcript (trimmed to its most recent part)
+ * if the summarization request fails - a task never fails over its memory.
+ *
+ * @param anthropic - Anthropic client
+ * @param modelConfig - Model to summarize with
+ * @param task - The task description
+ * @param memory - The current task memory, if any
+ * @param dropped - The dropped messages, oldest first
+ * @returns The updated memory
+ */
+export async function updateTaskMemory(
+  anthropic: Anthropic,
+  modelConfig: ModelConfig,
+  task: string,
+  memory: string | undefined,
+  dropped: Anthropic.Beta.BetaMessageParam[]
+): Promise<TaskMemoryUpdate> {
+  const transcript = renderTranscript(dropped);
+  if (!transcript) {
+    return { memory: memory ?? "" };
+  }
+
+  try {
+    const response = await anthropic.beta.messages.create({
+      model: modelConfig.model,
+      max_tokens: TASK_MEMORY_MAX_TOKENS,
+      system: MEMORY_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `Task: ${task}\n\nCurrent note:\n${memory || "(empty)"}\n\nRemoved steps:\n${transcript}`,
+        },
+      ],
+    });
+    const text = response.content
+      .flatMap((block) => (block.type === "text" ? [block.text] : []))
+      .join("\n")
+      .trim();
+    if (text) {
+      return { memory: text, usage: response.usage };
+    }
+    console.warn("[Agent] Task memory summary was empty; keeping the transcript");
+    return { memory: fallbackMemory(memory, transcript), usage: response.usage };
+  } catch (err) {
+    console.warn("[Agent] Failed to summarize dropped history; keeping the transcript:", err);
+    return { memory: fallbackMemory(memory, transcript) };
+  }
+}
+
+function fallbackMemory(memory: string | undefined, transcript: string): string {
+  const combined = memory ? `${memory}\n${transcript}` : transcript;
+  return combined.length > TASK_MEMORY_FALLBACK_MAX_LENGTH
+    ? `...${combined.slice(-(TASK_MEMORY_FALLBACK_MAX_LENGTH - 3))}`
+    : combined;
+}
@@ -0,0 +1,322 @@
+/**
+ * Schema Patterns
+ *
+ * Linear-time matcher for the pattern keyword of output schemas. Patterns
+ * come from callers and are tested against model output, so they are not
+ * run on the backtracking RegExp engine: a pattern such as ^(a|a)*b$ would
+ * block the event loop. Instead a pattern is compiled to an NFA and
+ * simulated one input character at a time, which takes time proportional
+ * to the input length times the pattern size.
+ *
+ * Supports the regular subset of ECMAScript patterns (with the u flag):
+ * characters, classes and escapes, groups, alternation, quantifiers and the
+ * ^, $, \b and \B assertions. Backreferences and lookaround are rejected.
+ */
+
+import { SCHEMA_PATTERN_MAX_STATES } from "./config.js";
+
+/**
+ * A compiled pattern
+ */
+export interface SchemaPattern {
+  /** Whether the pattern matches anywhere in value */
+  test(value: string): boolean;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+type PatternNode =
+  | { type: "char"; test: (codePoint: number) => boolean }
+  | { type: "assert"; test: (chars: number[], pos: number) => boolean }
+  | { type: "seq"; items: PatternNode[] }
+  | { type: "alt"; options: PatternNode[] }
+  | { type: "repeat"; node: PatternNode; min: number; max: number };
+
+// \w without the i flag
+function isWordChar(codePoint: number | undefined): boolean {
+  return (
+    codePoint !== undefined &&
+    ((codePoint >= 48 && codePoint <= 57) ||
+      (codePoint >= 65 && codePoint <= 90) ||
+      (codePoint >= 97 && codePoint <= 122) ||
+      codePoint === 95)
+  );
+}
+
+// Matches one character against a class, escape or "." by running it
+// through RegExp on that character alone, which cannot backtrack
+function charTester(token: string): PatternNode {
+  const regex = new RegExp(`^(?:${token})$`, "u");
+  return { type: "char", test: (codePoint) => regex.test(String.fromCodePoint(codePoint)) };
+}
+
+class PatternParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): PatternNode {
+    const node = this.alternation();
+    if (this.pos < this.source.length) {
+      throw new Error(`unexpected ${this.source[this.pos]}`);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private alternation(): PatternNode {
+    const options = [this.sequence()];
+    while (this.peek() === "|") {
+      this.pos++;
+      options.push(this.sequence());
+    }
+    return options.length === 1 ? options[0] : { type: "alt", options };
+  }
+
+  private sequence(): PatternNode {
+    const items: PatternNode[] = [];
+    while (this.pos < this.source.length && this.peek() !== "|" && this.peek() !== ")") {
+      items.push(this.quantified(this.atom()));
+    }
+    return items.length === 1 ? items[0] : { type: "seq", items };
+  }
+
+  private quantified(node: PatternNode): PatternNode {
+    let min: number;
+    let max: number;
+    const c = this.peek();
+    if (c === "*" || c === "+" || c === "?") {
+      this.pos++;
+      min = c === "+" ? 1 : 0;
+      max = c === "?" ? 1 : Infinity;
+    } else {
+      const braces = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+      if (!braces) {
+        return node;
+      }
+      this.pos += braces[0].length;
+      min = Number(braces[1]);
+      max = braces[2] === undefined ? min : braces[3] === "" ? Infinity : Number(braces[3]);
+    }
+    // Lazy and greedy quantifiers accept the same strings
+    if (this.peek() === "?") {
+      this.pos++;
+    }
+    return { type: "repeat", node, min, max };
+  }
+
+  private atom(): PatternNode {
+    const c = this.peek()!;
+    if (c === "(") {
+      return this.group();
+    }
+    if (c === "[") {
+      return this.charClass();
+    }
+    if (c === "\\") {
+      return this.escape();
+    }
+    if (c === "^") {
+      this.pos++;
+      return { type: "assert", test: (_, pos) => pos === 0 };
+    }
+    if (c === "$") {
+      this.pos++;
+      return { type: "assert", test: (chars, pos) => pos === chars.length };
+    }
+    if (c === ".") {
+      this.pos++;
+      return charTester(".");
+    }
+    const codePoint = this.source.codePointAt(this.pos)!;
+    this.pos += codePoint > 0xffff ? 2 : 1;
+    return { type: "char", test: (input) => input === codePoint };
+  }
+
+  private group(): PatternNode {
+    this.pos++;
+    if (this.peek() === "?") {
+      const named = /^\?<([^>=!]+)>/.exec(this.source.slice(this.pos));
+      if (named) {
+        this.pos += named[0].length;
+      } else if (this.source.startsWith("?:", this.pos)) {
+        this.pos += 2;
+      } else {
+        throw new Error("lookahead and lookbehind are not supported");
+      }
+    }
+    const node = this.alternation();
+    if (this.peek() !== ")") {
+      throw new Error("unterminated group");
+    }
+    this.pos++;
+    return node;
+  }
+
+  private charClass(): PatternNode {
+    const start = this.pos;
+    this.pos++;
+    if (this.peek() === "^") {
+      this.pos++;
+    }
+    while (this.pos < this.source.length && this.peek() !== "]") {
+      this.pos += this.peek() === "\\" ? 2 : 1;
+    }
+    this.pos++;
+    return charTester(this.source.slice(start, this.pos));
+  }
+
+  private escape(): PatternNode {
+    const rest = this.source.slice(this.pos);
+    if (/^\\b/.test(rest) || /^\\B/.test(rest)) {
+      this.pos += 2;
+      const boundary = rest[1] === "b";
+      return {
+        type: "assert",
+        test: (chars, pos) =>
+          (isWordChar(chars[pos - 1]) !== isWordChar(chars[pos])) === boundary,
+      };
+    }
+    if (/^\\(?:[1-9]|k<)/.test(rest)) {
+      throw new Error("backreferences are not supported");
+    }
+    const token = /^\\(?:[pP]\{[^}]*\}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[a-zA-Z]|.)/su.exec(
+      rest
+    )![0];
+    this.pos += token.length;
+    return charTester(token);
+  }
+}
+
+// ============================================
+// Compilation
+// ============================================
+
+type NfaState =
+  | { kind: "char"; test: (codePoint: number) => boolean; out: number }
+  | { kind: "assert"; test: (chars: number[], pos: number) => boolean; out: number }
+  | { kind: "split"; outs: number[] }
+  | { kind: "match" };
+
+class NfaBuilder {
+  readonly states: NfaState[] = [{ kind: "match" }];
+
+  private add(state: NfaState): number {
+    if (this.states.length >= SCHEMA_PATTERN_MAX_STATES) {
+      throw new Error("pattern is too complex");
+    }
+    this.states.push(state);
+    return this.states.length - 1;
+  }
+
+  // Compile node so that it continues to next; returns its entry state
+  emit(node: PatternNode, next: number): number {
+    switch (node.type) {
+      case "char":
+        return this.add({ kind: "char", test: node.test, out: next });
+      case "assert":
+        return this.add({ kind: "assert", test: node.test, out: next });
+      case "seq":
+        for (let i = node.items.length - 1; i >= 0; i--) {
+          next = this.emit(node.items[i], next);
+        }
+        return next;
+      case "alt":
+        return this.add({
+          kind: "split",
+          outs: node.options.map((option) => this.emit(option, next)),
+        });
+      case "repeat": {
+        if (node.max === Infinity) {
+          const loop = this.add({ kind: "split", outs: [] });
+          (this.states[loop] as { outs: number[] }).outs = [this.emit(node.node, loop), next];
+          next = loop;
+        } else {
+          for (let i = node.min; i < node.max; i++) {
+            next = this.add({ kind: "split", outs: [this.emit(node.node, next), next] });
+          }
+        }
+        for (let i = 0; i < node.min; i++) {
+          next = this.emit(node.node, next);
+        }
+        return next;
+      }
+    }
+  }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Compile a schema pattern
+ *
+ * @param source - Pattern from an output_schema, valid with the u flag
+ * @returns The compiled pattern
+ * @throws Error naming the unsupported feature if it cannot be compiled
+ */
+export function compilePattern(source: string): SchemaPattern {
+  const builder = new NfaBuilder();
+  const start = builder.emit(new PatternParser(source).parse(), 0);
+  const states = builder.states;
+
+  return {
+    test(value: string): boolean {
+      const chars = Array.from(value, (char) => char.codePointAt(0)!);
+      // Position + 1 at which each state was last added, so each state is
+      // visited once per position
+      const added = new Int32Array(states.length);
+
+      // Add a state and everything reachable from it without consuming
+      // input; returns true if that reaches the match state
+      const addState = (list: number[], state: number, pos: number): boolean => {
+        const stack = [state];
+        while (stack.length > 0) {
+          const s = stack.pop()!;
+          if (added[s] === pos + 1) {
+            continue;
+          }
+          added[s] = pos + 1;
+          const nfa = states[s];
+          if (nfa.kind === "match") {
+            return true;
+          } else if (nfa.kind === "split") {
+            stack.push(...nfa.outs);
+          } else if (nfa.kind === "assert") {
+            if (nfa.test(chars, pos)) {
+              stack.push(nfa.out);
+            }
+          } else {
+            list.push(s);
+          }
+        }
+        return false;
+      };
+
+      let current: number[] = [];
+      for (let pos = 0; ; pos++) {
+        // Unanchored: a match may start at any position
+        if (addState(current, start, pos)) {
+          return true;
+        }
+        if (pos === chars.length) {
+          return false;
+        }
+        const next: number[] = [];
+        for (const s of current) {
+          const nfa = states[s] as { test: (codePoint: number) => boolean; out: number };
+          if (nfa.test(chars[pos]) && addState(next, nfa.out, pos + 1)) {
+            return true;
+          }
+        }
+        current = next;
+      }
+    },
+  };
+}
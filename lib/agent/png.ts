@@ -0,0 +1,321 @@
+/**
+ * PNG Resizing
+ *
+ * Minimal PNG codec for downscaling sandbox screenshots, built on node:zlib
+ * so it runs anywhere the server does without native image libraries.
+ * Decodes non-interlaced 8-bit grayscale, RGB, palette and alpha images,
+ * and encodes 8-bit RGB or RGBA.
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+
+/**
+ * Decoded image: 8-bit RGB or RGBA pixels, row by row
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  channels: 3 | 4;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Bytes per pixel of each supported color type at bit depth 8
+const BYTES_PER_PIXEL: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// ============================================
+// Decoding
+// ============================================
+
+/**
+ * Decode a PNG image
+ *
+ * @param png - PNG file contents
+ * @returns Decoded pixels
+ * @throws Error if the file is not a PNG or uses an unsupported format
+ */
+export function decodePng(png: Buffer): RawImage {
+  if (png.length < PNG_SIGNATURE.length || !png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("latin1", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || !(colorType in BYTES_PER_PIXEL) || interlace !== 0) {
+        throw new Error(
+          `Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`
+        );
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new Error("Incomplete PNG image");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("PNG palette missing");
+  }
+
+  // Undo the per-row filters
+  const bpp = BYTES_PER_PIXEL[colorType];
+  const stride = width * bpp;
+  const filtered = inflateSync(Buffer.concat(idat));
+  if (filtered.length < (stride + 1) * height) {
+    throw new Error("Truncated PNG image data");
+  }
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? raw[row + i - bpp] : 0;
+      const up = y > 0 ? raw[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? raw[prev + i - bpp] : 0;
+      const value = filtered[src + i];
+      switch (filter) {
+        case 0:
+          raw[row + i] = value;
+          break;
+        case 1:
+          raw[row + i] = value + left;
+          break;
+        case 2:
+          raw[row + i] = value + up;
+          break;
+        case 3:
+          raw[row + i] = value + ((left + up) >> 1);
+          break;
+        case 4:
+          raw[row + i] = value + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+
+  // Expand to RGB or RGBA
+  const channels = colorType === 4 || colorType === 6 ? 4 : 3;
+  if (colorType === 2 || colorType === 6) {
+    return { width, height, channels, data: raw };
+  }
+  const data = new Uint8Array(width * height * channels);
+  for (let p = 0; p < width * height; p++) {
+    const out = p * channels;
+    if (colorType === 3) {
+      const entry = raw[p] * 3;
+      data[out] = palette![entry];
+      data[out + 1] = palette![entry + 1];
+      data[out + 2] = palette![entry + 2];
+    } else {
+      const gray = raw[p * bpp];
+      data[out] = data[out + 1] = data[out + 2] = gray;
+      if (channels === 4) {
+        data[out + 3] = raw[p * bpp + 1];
+      }
+    }
+  }
+  return { width, height, channels, data };
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode an image as PNG
+ * Each row uses whichever of the None, Sub and Up filters is likely to
+ * compress best, which suits the flat areas of screenshots.
+ *
+ * @param image - Pixels to encode
+ * @returns PNG file contents
+ */
+export function encodePng(image: RawImage): Buffer {
+  const { width, height, channels, data } = image;
+  const stride = width * channels;
+  const filtered = Buffer.alloc((stride + 1) * height);
+  const candidates = [new Uint8Array(stride), new Uint8Array(stride), new Uint8Array(stride)];
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const scores = [0, 0, 0];
+    for (let i = 0; i < stride; i++) {
+      const value = data[row + i];
+      const sub = (value - (i >= channels ? data[row + i - channels] : 0)) & 0xff;
+      const up = (value - (y > 0 ? data[row + i - stride] : 0)) & 0xff;
+      candidates[0][i] = value;
+      candidates[1][i] = sub;
+      candidates[2][i] = up;
+      // Smaller signed values compress better
+      scores[0] += value < 128 ? value : 256 - value;
+      scores[1] += sub < 128 ? sub : 256 - sub;
+      scores[2] += up < 128 ? up : 256 - up;
+    }
+    const best = scores.indexOf(Math.min(...scores));
+    filtered[y * (stride + 1)] = best;
+    filtered.set(candidates[best], y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = channels === 4 ? 6 : 2;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(filtered)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+// ============================================
+// Resizing
+// ============================================
+
+// For each destination pixel along one axis: the source pixels it covers
+// and how much of each, so downscaling averages instead of skipping pixels
+function axisWeights(
+  srcLength: number,
+  dstLength: number
+): { start: number; weights: number[] }[] {
+  const scale = srcLength / dstLength;
+  const result: { start: number; weights: number[] }[] = [];
+  for (let i = 0; i < dstLength; i++) {
+    const from = i * scale;
+    const to = Math.min(srcLength, (i + 1) * scale);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < to; s++) {
+      weights.push((Math.min(to, s + 1) - Math.max(from, s)) / scale);
+    }
+    result.push({ start, weights });
+  }
+  return result;
+}
+
+/**
+ * Resize an image by area averaging (intended for downscaling)
+ *
+ * @param image - Source pixels
+ * @param width - Target width
+ * @param height - Target height
+ * @returns Resized pixels
+ */
+export function resizeImage(image: RawImage, width: number, height: number): RawImage {
+  const { channels } = image;
+  const columns = axisWeights(image.width, width);
+  const rows = axisWeights(image.height, height);
+
+  // Horizontal pass, then vertical
+  const horizontal = new Float32Array(width * image.height * channels);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let k = 0; k < weights.length; k++) {
+          sum += image.data[(y * image.width + start + k) * channels + c] * weights[k];
+        }
+        horizontal[(y * width + x) * channels + c] = sum;
+      }
+    }
+  }
+
+  const data = new Uint8Array(width * height * channels);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let k = 0; k < weights.length; k++) {
+          sum += horizontal[((start + k) * width + x) * channels + c] * weights[k];
+        }
+        data[(y * width + x) * channels + c] = Math.min(255, Math.round(sum));
+      }
+    }
+  }
+  return { width, height, channels, data };
+}
+
+/**
+ * Resize a PNG image
+ *
+ * @param png - PNG file contents
+ * @param width - Target width
+ * @param height - Target height
+ * @returns Resized PNG file contents
+ * @throws Error if the image cannot be decoded
+ */
+export function resizePng(png: Buffer, width: number, height: number): Buffer {
+  return encodePng(resizeImage(decodePng(png), width, height));
+}
@@ -1,39 +1,42 @@
 /**
  * Progress Management
  *
- * Functions for tracking and updating task progress in Vercel Blob storage.
+ * Functions for tracking and updating task progress in the task store.
  * Provides retry logic, initialization, and finalization helpers.
  */
 
-import { put } from "@vercel/blob";
-import type { TaskProgress } from "./types.js";
+import { getTaskStore, taskRecordPath } from "../storage/index.js";
+import type { TaskProgress, TaskResult } from "./types.js";
 import { sleep } from "./utils.js";
 import { RETRY_BACKOFF_BASE_MS } from "./config.js";
+import { indexTask } from "./task-index.js";
+import { deliverTaskCallback } from "./webhook.js";
 
 /**
- * Update progress in Vercel Blob storage with retry logic
+ * Update progress in the task store with retry logic
  *
+ * @param tenantId - Tenant that owns the task
  * @param taskId - Unique task identifier
  * @param progress - Current progress state
  * @param retries - Number of retry attempts (default: 2)
- * @returns The blob URL on success, undefined on failure
+ * @returns True on success, false on failure
  */
 export async function updateProgress(
+  tenantId: string,
   taskId: string,
   progress: TaskProgress,
   retries: number = 2
-): Promise<string | undefined> {
+): Promise<boolean> {
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      const blob = await put(
-        `progress/${taskId}.json`,
-        JSON.stringify(progress),
-        { access: "public", addRandomSuffix: false }
+      await getTaskStore().putJson(
+        taskRecordPath(tenantId, "progress", taskId),
+        progress
       );
       if (attempt > 0) {
         console.log(`[Agent] Progress update succeeded on retry ${attempt}`);
       }
-      return blob.url;
+      return true;
     } catch (err) {
       const isLastAttempt = attempt === retries;
       if (isLastAttempt) {
@@ -41,32 +44,69 @@ export async function updateProgress(
           `[Agent] Failed to update progress after ${retries + 1} attempts:`,
           err
         );
-        return undefined;
+        return false;
       }
       // Wait before retry (exponential backoff: 100ms, 200ms)
       await sleep(RETRY_BACKOFF_BASE_MS * (attempt + 1));
     }
   }
-  return undefined;
+  return false;
+}
+
+/**
+ * Store a finished task's result (get_task_history) with retry logic
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param result - Final task result
+ * @param retries - Number of retry attempts (default: 2)
+ * @returns True on success, false on failure
+ */
+export async function saveTaskResult(
+  tenantId: string,
+  taskId: string,
+  result: TaskResult,
+  retries: number = 2
+): Promise<boolean> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      await getTaskStore().putJson(taskRecordPath(tenantId, "tasks", taskId), result);
+      return true;
+    } catch (err) {
+      if (attempt === retries) {
+        console.error(
+          `[Agent] Failed to store result of task ${taskId} after ${retries + 1} attempts:`,
+          err
+        );
+        return false;
+      }
+      await sleep(RETRY_BACKOFF_BASE_MS * (attempt + 1));
+    }
+  }
+  return false;
 }
 
 /**
  * Initialize progress tracking for a new task
  *
+ * @param tenantId - Tenant that owns the task
  * @param taskId - Unique task identifier
  * @param sandboxName - Name of the sandbox being used
  * @param task - Task description
  * @param maxSteps - Maximum number of steps allowed
  * @param timeoutSeconds - Timeout in seconds
- * @returns The progress URL for polling
+ * @param callbackUrl - Optional URL to POST the final result to
+ * @returns True if the initial progress was stored
  */
 export async function initializeProgress(
+  tenantId: string,
   taskId: string,
   sandboxName: string,
   task: string,
   maxSteps: number,
-  timeoutSeconds: number
-): Promise<string | undefined> {
+  timeoutSeconds: number,
+  callbackUrl?: string
+): Promise<boolean> {
   const progress: TaskProgress = {
     task_id: taskId,
     sandbox_name: sandboxName,
@@ -79,23 +119,33 @@ export async function initializeProgress(
     elapsed_ms: 0,
     timeout_seconds: timeoutSeconds,
     steps_summary: [],
+    ...(callbackUrl
+      ? { callback: { url: callbackUrl, status: "pending", attempts: 0 } }
+      : {}),
   };
-  return updateProgress(taskId, progress);
+  await indexTask(tenantId, progress);
+  return updateProgress(tenantId, taskId, progress);
 }
 
 /**
  * Finalize task progress with result
  *
  * Consolidates the repeated progress update pattern used for
- * completion, failure, and timeout scenarios.
+ * completion, failure, and timeout scenarios. If the task has a pending
+ * callback it is delivered in the background after the final progress is
+ * stored, so retries don't hold up the task, and the delivery outcome is
+ * recorded in the progress record.
  *
+ * @param tenantId - Tenant that owns the task
  * @param taskId - Unique task identifier
  * @param progress - Current progress state (will be mutated)
  * @param status - Final status to set
  * @param result - Final result details
- * @returns The blob URL on success, undefined on failure
+ * @param runInBackground - Keeps the callback delivery alive (detached if omitted)
+ * @returns True on success, false on failure
  */
 export async function finalizeTask(
+  tenantId: string,
   taskId: string,
   progress: TaskProgress,
   status: TaskProgress["status"],
@@ -104,9 +154,13 @@ export async function finalizeTask(
     summary: string;
     steps: number;
     durationMs: number;
+    verified?: boolean;
+    verificationReasoning?: string;
+    data?: Record<string, unknown>;
     error?: string;
-  }
-): Promise<string | undefined> {
+  },
+  runInBackground?: (task: Promise<unknown>) => void
+): Promise<boolean> {
   progress.status = status;
   progress.current_step = result.steps;
   progress.updated_at = Date.now();
@@ -116,13 +170,27 @@ export async function finalizeTask(
     summary: result.summary,
     total_steps: result.steps,
     duration_ms: result.durationMs,
+    ...(result.verified !== undefined
+      ? { verified: result.verified, verification_reasoning: result.verificationReasoning }
+      : {}),
+    ...(result.data !== undefined ? { data: result.data } : {}),
     error: result.error,
   };
 
-  const updateResult = await updateProgress(taskId, progress);
+  await indexTask(tenantId, progress);
+  const updateResult = await updateProgress(tenantId, taskId, progress);
   console.log(
     `[Agent] Final progress update (${status}): ${updateResult ? "success" : "FAILED"}`
   );
+
+  if (progress.callback?.status === "pending") {
+    const delivery = deliverTaskCallback(progress)
+      .then(() => updateProgress(tenantId, taskId, progress))
+      .catch((err) => {
+        console.error(`[Agent] Failed to record callback delivery for ${taskId}:`, err);
+      });
+    runInBackground?.(delivery);
+  }
   return updateResult;
 }
 
@@ -161,3 +229,15 @@ export function summarizeAction(
   const label = ACTION_LABELS[action] || action.replace(/_/g, " ");
   return `${label}${coordStr}`;
 }
+
+/**
+ * Create a human-readable summary of an operator message
+ *
+ * @param text - The injected message text
+ * @returns Truncated message description
+ */
+export function summarizeMessage(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  const preview = oneLine.length > 60 ? `${oneLine.slice(0, 57)}...` : oneLine;
+  return `Operator message: "${preview}"`;
+}
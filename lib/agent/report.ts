@@ -0,0 +1,350 @@
+/**
+ * Task Reports
+ *
+ * Renders a human-readable replay of a finished task: the task, a timeline
+ * of steps with reasoning, results and errors, and the final summary. The
+ * HTML report is self-contained - captured screenshots are embedded with
+ * the click coordinates marked on them. Reports are stored with the task's
+ * artifacts and read back as cua://tasks/{task_id}/report.{html,md}.
+ */
+
+import { getTaskStore, taskArtifactsPrefix, taskRecordPath } from "../storage/index.js";
+import type { AgentStep, TaskProgress, TaskResult } from "./types.js";
+import { summarizeAction } from "./progress.js";
+import {
+  loadScreenshot,
+  FINAL_SCREENSHOT,
+  type StoredScreenshot,
+} from "./screenshots.js";
+
+/**
+ * Output format of a task report
+ */
+export type ReportFormat = "html" | "markdown";
+
+/**
+ * A rendered report. Stored at
+ * tenants/{tenantId}/artifacts/{taskId}/reports/report.{html,md}.json
+ */
+export interface TaskReport {
+  task_id: string;
+  format: ReportFormat;
+  generated_at: number;
+  content: string;
+}
+
+/** File extension (and resource URI suffix) per format */
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  html: "html",
+  markdown: "md",
+};
+
+/** MIME type per format */
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  html: "text/html",
+  markdown: "text/markdown",
+};
+
+/**
+ * Everything a report is rendered from
+ */
+interface ReportData {
+  result: TaskResult;
+  progress: TaskProgress | null;
+  screenshots: Map<string, StoredScreenshot>;
+  generatedAt: number;
+}
+
+function reportPath(tenantId: string, taskId: string, format: ReportFormat): string {
+  return `${taskArtifactsPrefix(tenantId, taskId)}reports/report.${REPORT_EXTENSIONS[format]}.json`;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Field/value rows describing the task, shown at the top of both formats
+function taskDetails({ result, progress }: ReportData): [string, string][] {
+  return [
+    ["Task", progress?.task ?? "(unknown)"],
+    ["Task ID", result.task_id],
+    ["Sandbox", progress?.sandbox_name ?? "(unknown)"],
+    ["Status", result.status],
+    ...(progress ? ([["Started", formatTime(progress.started_at)]] as [string, string][]) : []),
+    ["Duration", formatDuration(result.duration_ms)],
+    ["Actions", String(result.steps_taken)],
+    ...(result.verified !== undefined
+      ? ([
+          [
+            "Verified",
+            `${result.verified ? "Yes" : "No"}${result.verification_reasoning ? ` - ${result.verification_reasoning}` : ""}`,
+          ],
+        ] as [string, string][])
+      : []),
+    ...(result.data !== undefined
+      ? ([["Result data", JSON.stringify(result.data)]] as [string, string][])
+      : []),
+    ...(result.usage
+      ? ([
+          [
+            "Tokens",
+            `${result.usage.total_tokens} (${result.usage.requests} requests, ${result.usage.cache_hits} cache hits)`,
+          ],
+          ["Estimated cost", `$${result.usage.cost_usd.toFixed(4)}`],
+        ] as [string, string][])
+      : []),
+  ];
+}
+
+function stepTitle(step: AgentStep): string {
+  return step.action === "user_message"
+    ? "Operator message"
+    : summarizeAction(step.action, step.coordinates);
+}
+
+// ============================================
+// HTML
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+.summary { border-left: 4px solid; padding: 0.5rem 1rem; margin: 1rem 0; }
+.ok { border-color: #1a7f37; }
+.fail { border-color: #cf222e; }
+ol.timeline { list-style: none; padding: 0; }
+.step { border-left: 4px solid; padding: 0.25rem 1rem; margin: 0 0 1rem; }
+.step h3 { font-size: 1rem; margin: 0.25rem 0; }
+.reasoning { color: #57606a; white-space: pre-wrap; }
+.error { color: #cf222e; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+figure { margin: 0.5rem 0; }
+.screen { position: relative; display: inline-block; max-width: 100%; }
+.screen img { display: block; max-width: 100%; border: 1px solid #d0d7de; }
+.marker { position: absolute; width: 18px; height: 18px; margin: -11px 0 0 -11px; border: 2px solid #cf222e; border-radius: 50%; background: rgba(207, 34, 46, 0.25); }
+figcaption { color: #57606a; font-size: 0.85rem; }
+footer { color: #57606a; font-size: 0.85rem; margin-top: 2rem; }
+`;
+
+function renderScreenHtml(
+  screenshot: StoredScreenshot,
+  caption: string,
+  coordinates: [number, number] | undefined,
+  screenSize: TaskResult["screen_size"]
+): string {
+  const marker =
+    coordinates && screenSize
+      ? `<span class="marker" style="left: ${((coordinates[0] / screenSize.width) * 100).toFixed(2)}%; top: ${((coordinates[1] / screenSize.height) * 100).toFixed(2)}%"></span>`
+      : "";
+  return `<figure><div class="screen"><img src="data:${escapeHtml(screenshot.media_type)};base64,${screenshot.data}" alt="${escapeHtml(caption)}">${marker}</div><figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+}
+
+function renderStepHtml(step: AgentStep, data: ReportData): string {
+  const parts = [
+    `<h3>${step.step}. ${escapeHtml(stepTitle(step))}${step.success ? "" : " (failed)"}</h3>`,
+  ];
+  if (step.reasoning) {
+    parts.push(`<p class="reasoning">${escapeHtml(step.reasoning)}</p>`);
+  }
+  if (step.result) {
+    parts.push(`<pre>${escapeHtml(step.result)}</pre>`);
+  }
+  if (step.error) {
+    parts.push(`<p class="error">${escapeHtml(step.error)}</p>`);
+  }
+  const screenshot = step.screenshot ? data.screenshots.get(step.screenshot) : undefined;
+  if (screenshot) {
+    parts.push(
+      renderScreenHtml(
+        screenshot,
+        `Screen before step ${step.step}`,
+        step.coordinates,
+        data.result.screen_size
+      )
+    );
+  }
+  return `<li class="step ${step.success ? "ok" : "fail"}">${parts.join("\n")}</li>`;
+}
+
+function renderHtml(data: ReportData): string {
+  const { result } = data;
+  const finalScreen = data.screenshots.get(FINAL_SCREENSHOT);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Task report: ${escapeHtml(result.task_id)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>Task report</h1>
+<dl>
+${taskDetails(data).map(([name, value]) => `<dt>${name}</dt><dd>${escapeHtml(value)}</dd>`).join("\n")}
+</dl>
+<section class="summary ${result.success ? "ok" : "fail"}">
+<h2>Summary</h2>
+<p>${escapeHtml(result.summary)}</p>
+${result.error ? `<p class="error">${escapeHtml(result.error)}</p>` : ""}
+</section>
+<h2>Timeline</h2>
+${
+  result.steps.length > 0
+    ? `<ol class="timeline">\n${result.steps.map((step) => renderStepHtml(step, data)).join("\n")}\n</ol>`
+    : "<p>No steps recorded.</p>"
+}
+${finalScreen ? `<h2>Final screen</h2>\n${renderScreenHtml(finalScreen, "Screen when the task finished", undefined, result.screen_size)}` : ""}
+<footer>Generated ${formatTime(data.generatedAt)}</footer>
+</body>
+</html>
+`;
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+// Keep table cells on one line and free of column separators
+function markdownCell(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+}
+
+function markdownQuote(text: string): string {
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+}
+
+function markdownCode(text: string): string {
+  // Use a fence longer than any backtick run in the text
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function renderStepMarkdown(step: AgentStep): string {
+  const parts = [`### ${step.step}. ${stepTitle(step)}${step.success ? "" : " (failed)"}`];
+  if (step.reasoning) {
+    parts.push(markdownQuote(step.reasoning));
+  }
+  if (step.result) {
+    parts.push(markdownCode(step.result));
+  }
+  if (step.error) {
+    parts.push(`**Error:** ${step.error}`);
+  }
+  if (step.screenshot) {
+    parts.push(`Screenshot: \`${step.screenshot}\``);
+  }
+  return parts.join("\n\n");
+}
+
+function renderMarkdown(data: ReportData): string {
+  const { result } = data;
+
+  const sections = [
+    `# Task report: ${result.task_id}`,
+    ["| Field | Value |", "|-------|-------|", ...taskDetails(data).map(([name, value]) => `| ${name} | ${markdownCell(value)} |`)].join("\n"),
+    `## Summary\n\n${result.summary}${result.error ? `\n\n**Error:** ${result.error}` : ""}`,
+    `## Timeline\n\n${
+      result.steps.length > 0
+        ? result.steps.map(renderStepMarkdown).join("\n\n")
+        : "No steps recorded."
+    }`,
+  ];
+  if (result.steps.some((step) => step.screenshot)) {
+    sections.push(
+      "Screenshots are named above; fetch them with `get_task_screenshot` or see the HTML report."
+    );
+  }
+  sections.push(`_Generated ${formatTime(data.generatedAt)}_`);
+  return `${sections.join("\n\n")}\n`;
+}
+
+// ============================================
+// Generation & Storage
+// ============================================
+
+/**
+ * Render a report for a finished task and store it with the task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param format - Report format
+ * @returns The stored report, or null if the task has no stored result
+ *   (unknown, or still running)
+ */
+export async function generateTaskReport(
+  tenantId: string,
+  taskId: string,
+  format: ReportFormat
+): Promise<TaskReport | null> {
+  const store = getTaskStore();
+  const result = await store.getJson<TaskResult>(taskRecordPath(tenantId, "tasks", taskId));
+  if (!result) {
+    return null;
+  }
+  const progress = await store.getJson<TaskProgress>(
+    taskRecordPath(tenantId, "progress", taskId)
+  );
+
+  // Only the HTML report embeds images
+  const screenshots = new Map<string, StoredScreenshot>();
+  if (format === "html") {
+    const names = new Set(
+      result.steps.flatMap((step) => (step.screenshot ? [step.screenshot] : []))
+    );
+    names.add(FINAL_SCREENSHOT);
+    for (const name of names) {
+      const screenshot = await loadScreenshot(tenantId, taskId, name);
+      if (screenshot) {
+        screenshots.set(name, screenshot);
+      }
+    }
+  }
+
+  const data: ReportData = { result, progress, screenshots, generatedAt: Date.now() };
+  const report: TaskReport = {
+    task_id: taskId,
+    format,
+    generated_at: data.generatedAt,
+    content: format === "html" ? renderHtml(data) : renderMarkdown(data),
+  };
+  await store.putJson(reportPath(tenantId, taskId, format), report);
+  return report;
+}
+
+/**
+ * Load a previously generated report
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param format - Report format
+ * @returns The report, or null if none has been generated
+ */
+export async function loadTaskReport(
+  tenantId: string,
+  taskId: string,
+  format: ReportFormat
+): Promise<TaskReport | null> {
+  return getTaskStore().getJson<TaskReport>(reportPath(tenantId, taskId, format));
+}
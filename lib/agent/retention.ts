@@ -0,0 +1,236 @@
+/**
+ * Retention
+ *
+ * Deletes stored data for finished tasks once they are older than the
+ * tenant's retention policy: progress, result, checkpoint, control and
+ * index records, the event log, and any artifacts such as screenshots. Runs on demand
+ * (purge_tasks) and as a throttled sweep triggered by run_task and list_tasks.
+ */
+
+import {
+  getTaskStore,
+  taskRecordPath,
+  taskArtifactsPrefix,
+  taskEventsPrefix,
+  taskClaimsPrefix,
+  tenantDocumentPath,
+  type TaskRecordKind,
+} from "../storage/index.js";
+import type { TaskStatus } from "./types.js";
+import {
+  getRetentionPolicy,
+  RETENTION_SWEEP_INTERVAL_MS,
+  type RetentionPolicy,
+} from "./config.js";
+import { loadTaskIndex, type TaskIndexEntry } from "./task-index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Per-task records removed by a purge
+const TASK_RECORD_KINDS: TaskRecordKind[] = [
+  "progress",
+  "tasks",
+  "checkpoints",
+  "control",
+  "index",
+];
+
+/**
+ * A task removed by a purge
+ */
+export interface PurgedTask {
+  task_id: string;
+  status: TaskStatus;
+  finished_at: number;
+  /** Artifacts (e.g. screenshots) deleted with the task */
+  artifacts_deleted: number;
+}
+
+/**
+ * Outcome of a purge or sweep
+ */
+export interface PurgeReport {
+  purged_at: number;
+  dry_run: boolean;
+  policy: RetentionPolicy;
+  removed: PurgedTask[];
+}
+
+/**
+ * Options for purgeTasks
+ */
+export interface PurgeOptions {
+  /** Only purge tasks with this final status */
+  status?: TaskStatus;
+  /** Purge finished tasks older than this, ignoring the policy */
+  older_than_days?: number;
+  /** Report what would be removed without deleting anything */
+  dry_run?: boolean;
+}
+
+/**
+ * Last automatic sweep for a tenant
+ * Stored at tenants/{tenantId}/retention.json
+ */
+interface SweepState {
+  last_sweep: PurgeReport;
+}
+
+// Tenants swept by this process, to skip the state read between sweeps
+const lastSweepChecks = new Map<string, number>();
+
+/**
+ * Whether an index entry has outlived its retention period
+ */
+function isExpired(
+  entry: TaskIndexEntry,
+  now: number,
+  policy: RetentionPolicy,
+  olderThanDays?: number
+): boolean {
+  if (entry.status === "running" || entry.status === "paused") {
+    return false;
+  }
+  const days =
+    olderThanDays ??
+    (entry.status in policy
+      ? policy[entry.status as keyof RetentionPolicy]
+      : policy.default);
+  if (days === null || days === undefined) {
+    return false;
+  }
+  const finishedAt = entry.finished_at ?? entry.updated_at;
+  return now - finishedAt > days * DAY_MS;
+}
+
+/**
+ * Delete every object under a prefix
+ *
+ * @returns Number of objects deleted
+ */
+async function deletePrefix(prefix: string): Promise<number> {
+  const store = getTaskStore();
+  let deleted = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await store.list(prefix, { cursor });
+    await Promise.all(page.objects.map((object) => store.delete(object.path)));
+    deleted += page.objects.length;
+    cursor = page.cursor;
+  } while (cursor);
+  return deleted;
+}
+
+/**
+ * Delete every stored record, event and artifact of a task
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @returns Number of artifacts deleted
+ */
+export async function deleteTaskRecords(
+  tenantId: string,
+  taskId: string
+): Promise<number> {
+  const store = getTaskStore();
+  const artifacts = await deletePrefix(taskArtifactsPrefix(tenantId, taskId));
+  await deletePrefix(taskEventsPrefix(tenantId, taskId));
+  await deletePrefix(taskClaimsPrefix(tenantId, taskId));
+
+  // The index entry goes last so an interrupted purge is retried next sweep
+  for (const kind of TASK_RECORD_KINDS) {
+    await store.delete(taskRecordPath(tenantId, kind, taskId));
+  }
+  return artifacts;
+}
+
+/**
+ * Delete a tenant's finished tasks that are past retention
+ *
+ * @param tenantId - Tenant whose tasks to purge
+ * @param options - Status filter, age override and dry run
+ * @returns What was (or, for a dry run, would be) removed
+ */
+export async function purgeTasks(
+  tenantId: string,
+  options: PurgeOptions = {}
+): Promise<PurgeReport> {
+  const now = Date.now();
+  const policy = getRetentionPolicy(tenantId);
+  const expired = (await loadTaskIndex(tenantId)).filter(
+    (entry) =>
+      (!options.status || entry.status === options.status) &&
+      isExpired(entry, now, policy, options.older_than_days)
+  );
+
+  const removed: PurgedTask[] = [];
+  for (const entry of expired) {
+    const artifacts = options.dry_run
+      ? 0
+      : await deleteTaskRecords(tenantId, entry.task_id);
+    removed.push({
+      task_id: entry.task_id,
+      status: entry.status,
+      finished_at: entry.finished_at ?? entry.updated_at,
+      artifacts_deleted: artifacts,
+    });
+  }
+
+  return { purged_at: now, dry_run: !!options.dry_run, policy, removed };
+}
+
+/**
+ * Purge expired tasks if the tenant has not been swept recently
+ * Failures are logged, not thrown - sweeps run in the background.
+ *
+ * @param tenantId - Tenant to sweep
+ * @returns The sweep report, or null if no sweep was due
+ */
+export async function sweepExpiredTasks(
+  tenantId: string
+): Promise<PurgeReport | null> {
+  const now = Date.now();
+  const checkedAt = lastSweepChecks.get(tenantId);
+  if (checkedAt && now - checkedAt < RETENTION_SWEEP_INTERVAL_MS) {
+    return null;
+  }
+  lastSweepChecks.set(tenantId, now);
+
+  try {
+    const store = getTaskStore();
+    const statePath = tenantDocumentPath(tenantId, "retention");
+    const state = await store.getJson<SweepState>(statePath);
+    if (state && now - state.last_sweep.purged_at < RETENTION_SWEEP_INTERVAL_MS) {
+      return null;
+    }
+
+    const report = await purgeTasks(tenantId);
+    const nextState: SweepState = { last_sweep: report };
+    await store.putJson(statePath, nextState);
+    if (report.removed.length > 0) {
+      console.log(
+        `[Agent] Retention sweep removed ${report.removed.length} task(s): ` +
+          report.removed.map((task) => task.task_id).join(", ")
+      );
+    }
+    return report;
+  } catch (err) {
+    console.error("[Agent] Retention sweep failed:", err);
+    return null;
+  }
+}
+
+/**
+ * Get the report of the last automatic sweep for a tenant
+ *
+ * @param tenantId - Tenant ID
+ * @returns The report, or null if the tenant has never been swept
+ */
+export async function getLastSweep(
+  tenantId: string
+): Promise<PurgeReport | null> {
+  const state = await getTaskStore().getJson<SweepState>(
+    tenantDocumentPath(tenantId, "retention")
+  );
+  return state?.last_sweep ?? null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Screen Scaling
+ *
+ * Computer use works best at or below RECOMMENDED_MAX_WIDTH x
+ * RECOMMENDED_MAX_HEIGHT. Larger sandbox displays are presented to the model
+ * at a scaled-down size: screenshots are resized before they are sent, the
+ * computer tool advertises the scaled size, and the coordinates the model
+ * returns are mapped back to real screen pixels before acting on them.
+ */
+
+import type { ActionContext } from "./types.js";
+import { RECOMMENDED_MAX_WIDTH, RECOMMENDED_MAX_HEIGHT } from "./config.js";
+import { resizePng } from "./png.js";
+
+/**
+ * Size at which a screen is presented to the model
+ * Keeps the aspect ratio; screens that already fit are left as they are.
+ *
+ * @param width - Real screen width
+ * @param height - Real screen height
+ * @returns Scaled size
+ */
+export function getScaledSize(
+  width: number,
+  height: number
+): { width: number; height: number } {
+  const scale = Math.min(
+    1,
+    RECOMMENDED_MAX_WIDTH / width,
+    RECOMMENDED_MAX_HEIGHT / height
+  );
+  if (scale === 1) {
+    return { width, height };
+  }
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Whether the model sees the screen at a different size than it really is
+ *
+ * @param context - Action context
+ */
+export function isScaled(context: ActionContext): boolean {
+  return (
+    context.displayWidth !== context.screenWidth ||
+    context.displayHeight !== context.screenHeight
+  );
+}
+
+/**
+ * Map a coordinate from the model's view to real screen pixels
+ *
+ * @param x - X coordinate in the scaled display
+ * @param y - Y coordinate in the scaled display
+ * @param context - Action context
+ * @returns Screen coordinates, clamped to the screen
+ */
+export function toScreenCoordinates(
+  x: number,
+  y: number,
+  context: ActionContext
+): [number, number] {
+  if (!isScaled(context)) {
+    return [x, y];
+  }
+  return [
+    Math.min(
+      context.screenWidth - 1,
+      Math.round((x * context.screenWidth) / context.displayWidth)
+    ),
+    Math.min(
+      context.screenHeight - 1,
+      Math.round((y * context.screenHeight) / context.displayHeight)
+    ),
+  ];
+}
+
+/**
+ * Resize a full-screen screenshot to the size the model sees
+ * An image that cannot be resized is an error rather than sent at full
+ * size: the model would aim at it with the scaled coordinates the
+ * computer tool advertises, and every click would land in the wrong place.
+ *
+ * @param base64Image - Base64-encoded PNG of the whole screen
+ * @param context - Action context
+ * @returns Base64-encoded PNG at the scaled size
+ * @throws Error if the image cannot be resized
+ */
+export function scaleScreenshot(base64Image: string, context: ActionContext): string {
+  if (!isScaled(context)) {
+    return base64Image;
+  }
+  try {
+    return resizePng(
+      Buffer.from(base64Image, "base64"),
+      context.displayWidth,
+      context.displayHeight
+    ).toString("base64");
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(
+      `Failed to scale screenshot to ${context.displayWidth}x${context.displayHeight}: ${message}`
+    );
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Screenshot Capture
+ *
+ * Opt-in debugging aid: when a task is started with capture_screenshots,
+ * the screenshot the agent saw before each meaningful action, and the
+ * final screen, are stored as task artifacts. Images are never returned
+ * inline; get_task_screenshot hands out a signed resource URI that expires
+ * after a few minutes and only works with the API key that started the task.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getTaskStore, taskArtifactsPrefix } from "../storage/index.js";
+import { SCREENSHOT_REFERENCE_TTL_SECONDS } from "./config.js";
+
+/**
+ * Image data as sent to the model
+ */
+export interface ScreenshotImage {
+  media_type: string;
+  /** Base64-encoded image */
+  data: string;
+}
+
+/**
+ * A stored screenshot. Stored at
+ * tenants/{tenantId}/artifacts/{taskId}/screenshots/{name}.json
+ */
+export interface StoredScreenshot extends ScreenshotImage {
+  task_id: string;
+  /** "step-{n}" for the screen before step n, or "final" */
+  name: string;
+  step?: number;
+  captured_at: number;
+}
+
+/**
+ * Listing entry for a stored screenshot
+ */
+export interface ScreenshotInfo {
+  name: string;
+  step?: number;
+  captured_at: number;
+}
+
+/**
+ * Short-lived reference to a stored screenshot
+ */
+export interface ScreenshotReference {
+  uri: string;
+  expires_at: number;
+}
+
+/** Name of the screenshot taken when the task finished */
+export const FINAL_SCREENSHOT = "final";
+
+const SCREENSHOT_NAME = /^(?:step-(\d+)|final)$/;
+
+/**
+ * Name of the screenshot seen before a step
+ *
+ * @param step - Step number (matches AgentStep.step)
+ */
+export function stepScreenshotName(step: number): string {
+  return `step-${step}`;
+}
+
+function screenshotsPrefix(tenantId: string, taskId: string): string {
+  return `${taskArtifactsPrefix(tenantId, taskId)}screenshots/`;
+}
+
+function screenshotPath(tenantId: string, taskId: string, name: string): string {
+  return `${screenshotsPrefix(tenantId, taskId)}${name}.json`;
+}
+
+// Step number encoded in a screenshot name, if any
+function stepOf(name: string): number | undefined {
+  const match = SCREENSHOT_NAME.exec(name);
+  return match?.[1] !== undefined ? Number(match[1]) : undefined;
+}
+
+/**
+ * Store a screenshot for a task
+ * Failures are logged, not thrown - capture must never fail a task.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param name - stepScreenshotName(n) or FINAL_SCREENSHOT
+ * @param image - Image data
+ * @returns True if the screenshot was stored
+ */
+export async function saveScreenshot(
+  tenantId: string,
+  taskId: string,
+  name: string,
+  image: ScreenshotImage
+): Promise<boolean> {
+  const step = stepOf(name);
+  const screenshot: StoredScreenshot = {
+    task_id: taskId,
+    name,
+    ...(step !== undefined ? { step } : {}),
+    captured_at: Date.now(),
+    media_type: image.media_type,
+    data: image.data,
+  };
+  try {
+    await getTaskStore().putJson(screenshotPath(tenantId, taskId, name), screenshot);
+    return true;
+  } catch (err) {
+    console.error(`[Agent] Failed to store screenshot ${name} for task ${taskId}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Load a stored screenshot
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @param name - Screenshot name
+ * @returns The screenshot, or null if it was not captured
+ */
+export async function loadScreenshot(
+  tenantId: string,
+  taskId: string,
+  name: string
+): Promise<StoredScreenshot | null> {
+  if (!SCREENSHOT_NAME.test(name)) {
+    return null;
+  }
+  return getTaskStore().getJson<StoredScreenshot>(
+    screenshotPath(tenantId, taskId, name)
+  );
+}
+
+/**
+ * List the screenshots stored for a task, in step order with the final
+ * screen last
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param taskId - Unique task identifier
+ * @returns Stored screenshots (without image data)
+ */
+export async function listScreenshots(
+  tenantId: string,
+  taskId: string
+): Promise<ScreenshotInfo[]> {
+  const store = getTaskStore();
+  const prefix = screenshotsPrefix(tenantId, taskId);
+  const screenshots: ScreenshotInfo[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.list(prefix, { cursor });
+    for (const object of page.objects) {
+      const name = object.path.slice(prefix.length).replace(/\.json$/, "");
+      if (!SCREENSHOT_NAME.test(name)) {
+        continue;
+      }
+      const step = stepOf(name);
+      screenshots.push({
+        name,
+        ...(step !== undefined ? { step } : {}),
+        captured_at: object.uploaded_at,
+      });
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  return screenshots.sort(
+    (a, b) => (a.step ?? Infinity) - (b.step ?? Infinity)
+  );
+}
+
+// References are signed with the caller's API key, so they are useless
+// to anyone else and need no server-side secret
+function signReference(
+  cuaApiKey: string,
+  taskId: string,
+  name: string,
+  expiresAt: number
+): string {
+  return createHmac("sha256", cuaApiKey)
+    .update(`${taskId}/${name}:${expiresAt}`)
+    .digest("hex");
+}
+
+/**
+ * Create a short-lived resource URI for a stored screenshot
+ *
+ * @param cuaApiKey - CUA API key of the caller
+ * @param taskId - Unique task identifier
+ * @param name - Screenshot name
+ * @returns Signed cua:// URI readable with resources/read until it expires
+ */
+export function createScreenshotReference(
+  cuaApiKey: string,
+  taskId: string,
+  name: string
+): ScreenshotReference {
+  const expiresAt = Date.now() + SCREENSHOT_REFERENCE_TTL_SECONDS * 1000;
+  const signature = signReference(cuaApiKey, taskId, name, expiresAt);
+  return {
+    uri: `cua://tasks/${taskId}/screenshots/${name}?expires=${expiresAt}&signature=${signature}`,
+    expires_at: expiresAt,
+  };
+}
+
+/**
+ * Check a screenshot reference from createScreenshotReference
+ *
+ * @param cuaApiKey - CUA API key of the caller
+ * @param taskId - Unique task identifier
+ * @param name - Screenshot name
+ * @param expiresAt - Expiry from the URI (ms since epoch)
+ * @param signature - Signature from the URI
+ * @returns True if the reference is unexpired and was issued to this key
+ */
+export function verifyScreenshotReference(
+  cuaApiKey: string,
+  taskId: string,
+  name: string,
+  expiresAt: number,
+  signature: string
+): boolean {
+  if (!(expiresAt > Date.now())) {
+    return false;
+  }
+  const expected = Buffer.from(signReference(cuaApiKey, taskId, name, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,198 @@
+/**
+ * Task Index
+ *
+ * Per-tenant index of tasks for list_tasks. Each task has a small entry
+ * at tenants/{tenantId}/index/{taskId}.json, written when progress is
+ * initialized, when the task is paused or resumed, and when it finishes.
+ * Separate entries (rather than one index document) keep concurrent tasks
+ * from overwriting each other's updates.
+ */
+
+import { getTaskStore, taskRecordPath, tenantPrefix } from "../storage/index.js";
+import type { TaskProgress, TaskStatus } from "./types.js";
+import {
+  INDEX_READ_CONCURRENCY,
+  LIST_TASKS_DEFAULT_LIMIT,
+  LIST_TASKS_MAX_LIMIT,
+  LIST_TASKS_MAX_SCAN,
+} from "./config.js";
+
+/**
+ * Index entry for one task
+ */
+export interface TaskIndexEntry {
+  task_id: string;
+  sandbox_name: string;
+  task: string;
+  status: TaskStatus;
+  started_at: number;
+  updated_at: number;
+  finished_at?: number;
+  steps_taken?: number;
+  success?: boolean;
+  summary?: string;
+}
+
+/**
+ * Filters and pagination for listTasks
+ */
+export interface TaskListQuery {
+  sandbox_name?: string;
+  status?: TaskStatus;
+  /** Only tasks started at or after this time (ms since epoch) */
+  started_after?: number;
+  /** Only tasks started before this time (ms since epoch) */
+  started_before?: number;
+  /** Case-insensitive substring of the task description */
+  query?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * One page of listed tasks, newest first
+ */
+export interface TaskListPage {
+  tasks: TaskIndexEntry[];
+  next_cursor?: string;
+}
+
+/**
+ * Write the index entry for a task from its progress record
+ * Failures are logged, not thrown - the index must never fail a task.
+ *
+ * @param tenantId - Tenant that owns the task
+ * @param progress - Current progress state
+ */
+export async function indexTask(
+  tenantId: string,
+  progress: TaskProgress
+): Promise<void> {
+  const finished = progress.final_result;
+  const entry: TaskIndexEntry = {
+    task_id: progress.task_id,
+    sandbox_name: progress.sandbox_name,
+    task: progress.task,
+    status: progress.status,
+    started_at: progress.started_at,
+    updated_at: progress.updated_at,
+    ...(finished
+      ? {
+          finished_at: progress.updated_at,
+          steps_taken: finished.total_steps,
+          success: finished.success,
+          summary: finished.summary,
+        }
+      : {}),
+  };
+  try {
+    await getTaskStore().putJson(
+      taskRecordPath(tenantId, "index", progress.task_id),
+      entry
+    );
+  } catch (err) {
+    console.error(`[Agent] Failed to index task ${progress.task_id}:`, err);
+  }
+}
+
+// Paths of all of a tenant's index entries. Listing is cheap next to
+// reading the entries themselves.
+async function listIndexPaths(tenantId: string): Promise<string[]> {
+  const store = getTaskStore();
+  const paths: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.list(tenantPrefix(tenantId, "index"), { cursor });
+    paths.push(...page.objects.map((object) => object.path));
+    cursor = page.cursor;
+  } while (cursor);
+  return paths;
+}
+
+/**
+ * Load every index entry for a tenant, in no particular order
+ *
+ * @param tenantId - Tenant whose tasks to load
+ * @returns All index entries
+ */
+export async function loadTaskIndex(tenantId: string): Promise<TaskIndexEntry[]> {
+  const store = getTaskStore();
+  const paths = await listIndexPaths(tenantId);
+
+  const entries: TaskIndexEntry[] = [];
+  for (let i = 0; i < paths.length; i += INDEX_READ_CONCURRENCY) {
+    const batch = await Promise.all(
+      paths
+        .slice(i, i + INDEX_READ_CONCURRENCY)
+        .map((path) => store.getJson<TaskIndexEntry>(path))
+    );
+    entries.push(...batch.filter((entry): entry is TaskIndexEntry => !!entry));
+  }
+  return entries;
+}
+
+// Newest first. Task IDs start with their creation time (see
+// generateTaskId), so tasks are ordered without reading their entries.
+function compareTaskIds(a: string, b: string): number {
+  return a < b ? 1 : a > b ? -1 : 0;
+}
+
+/**
+ * List a tenant's tasks, newest first
+ * Entries are read in order only until the page is full, and at most
+ * LIST_TASKS_MAX_SCAN per call. With selective filters a page may hold
+ * fewer tasks than the limit; next_cursor is set while entries remain.
+ *
+ * @param tenantId - Tenant whose tasks to list
+ * @param query - Filters and pagination
+ * @returns One page of matching tasks
+ */
+export async function listTasks(
+  tenantId: string,
+  query: TaskListQuery = {}
+): Promise<TaskListPage> {
+  const limit = Math.min(
+    query.limit && query.limit > 0 ? query.limit : LIST_TASKS_DEFAULT_LIMIT,
+    LIST_TASKS_MAX_LIMIT
+  );
+  const text = query.query?.toLowerCase();
+  const matches = (entry: TaskIndexEntry) =>
+    (!query.sandbox_name || entry.sandbox_name === query.sandbox_name) &&
+    (!query.status || entry.status === query.status) &&
+    (query.started_after === undefined || entry.started_at >= query.started_after) &&
+    (query.started_before === undefined || entry.started_at < query.started_before) &&
+    (!text || entry.task.toLowerCase().includes(text));
+
+  // Cursor: ID of the last task scanned by the previous call
+  const prefix = tenantPrefix(tenantId, "index");
+  const taskIds = (await listIndexPaths(tenantId))
+    .map((path) => path.slice(prefix.length, -".json".length))
+    .filter((taskId) => !query.cursor || compareTaskIds(query.cursor, taskId) < 0)
+    .sort(compareTaskIds);
+
+  const store = getTaskStore();
+  const scanLimit = Math.min(taskIds.length, LIST_TASKS_MAX_SCAN);
+  const tasks: TaskIndexEntry[] = [];
+  let scanned = 0;
+  while (scanned < scanLimit && tasks.length < limit) {
+    const batch = await Promise.all(
+      taskIds
+        .slice(scanned, Math.min(scanned + INDEX_READ_CONCURRENCY, scanLimit))
+        .map((taskId) => store.getJson<TaskIndexEntry>(taskRecordPath(tenantId, "index", taskId)))
+    );
+    for (const entry of batch) {
+      scanned++;
+      if (entry && matches(entry)) {
+        tasks.push(entry);
+        if (tasks.length === limit) {
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    tasks,
+    ...(scanned < taskIds.length ? { next_cursor: taskIds[scanned - 1] } : {}),
+  };
+}
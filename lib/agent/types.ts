@@ -6,11 +6,23 @@
  */
 
 import type Anthropic from "@anthropic-ai/sdk";
+import type { ScreenshotImage } from "./screenshots.js";
 
 // ============================================
 // Core Agent Types (extracted from agent.ts)
 // ============================================
 
+/**
+ * Lifecycle status of a task
+ */
+export type TaskStatus =
+  | "running"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "timeout"
+  | "cancelled";
+
 /**
  * Represents a single step in the agent execution loop
  */
@@ -22,6 +34,34 @@ export interface AgentStep {
   result?: string;
   success: boolean;
   error?: string;
+  /** Stored screenshot of the screen before this step (capture_screenshots) */
+  screenshot?: string;
+}
+
+/**
+ * Tokens used by a task (or one model request) and their estimated cost
+ */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  /** Sum of all of the above */
+  total_tokens: number;
+  /** Estimated from the model's prices in MODEL_CONFIGS */
+  cost_usd: number;
+  /** Number of model requests */
+  requests: number;
+  /** Requests that read part of their prompt from the prompt cache */
+  cache_hits: number;
+}
+
+/**
+ * Spending limits for a task; exceeding either fails the task
+ */
+export interface TaskBudget {
+  max_cost_usd?: number;
+  max_tokens?: number;
 }
 
 /**
@@ -29,15 +69,33 @@ export interface AgentStep {
  */
 export interface TaskResult {
   task_id: string;
+  status: Exclude<TaskStatus, "running" | "paused">;
   success: boolean;
   summary: string;
   steps: AgentStep[];
   steps_taken: number;
   duration_ms: number;
   screen_size?: { width: number; height: number };
+  usage?: TokenUsage;
+  /** Verify mode: whether an independent check confirmed the task is done */
+  verified?: boolean;
+  /** Verify mode: the checker's reasoning */
+  verification_reasoning?: string;
+  /** Structured result, validated against the task's output_schema */
+  data?: Record<string, unknown>;
   error?: string;
 }
 
+/**
+ * Verify mode settings and state (run_task verify)
+ */
+export interface TaskVerification {
+  /** What the checker looks for; the task description when omitted */
+  success_criteria?: string;
+  /** Completion checks run so far */
+  attempts: number;
+}
+
 /**
  * Result of a screen description request
  */
@@ -48,15 +106,28 @@ export interface ScreenDescription {
   error?: string;
 }
 
+/**
+ * Delivery state of a task's completion callback (run_task callback_url)
+ */
+export interface CallbackDelivery {
+  url: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  last_attempt_at?: number;
+  /** HTTP status of the last attempt, if the endpoint responded */
+  response_status?: number;
+  error?: string;
+}
+
 /**
  * Progress tracking for running tasks
- * Stored in Vercel Blob and polled by clients
+ * Stored in the task store and polled by clients
  */
 export interface TaskProgress {
   task_id: string;
   sandbox_name: string;
   task: string;
-  status: "running" | "completed" | "failed" | "timeout";
+  status: TaskStatus;
   current_step: number;
   max_steps: number;
   started_at: number;
@@ -72,15 +143,191 @@ export interface TaskProgress {
   };
   steps_summary: string[];
   last_reasoning?: string;
+  /** Number of function invocations the task has run in (resumable tasks) */
+  invocations?: number;
+  /** Completion callback, delivered when the task finishes */
+  callback?: CallbackDelivery;
+  /** Sequence number of the last event written to the task's event log */
+  last_event_seq?: number;
+  /** Screenshots are stored for debugging (see get_task_screenshot) */
+  capture_screenshots?: boolean;
+  /** Tokens used so far, across invocations */
+  usage?: TokenUsage;
+  /** Spending limits from run_task */
+  budget?: TaskBudget;
+  /** Completions are checked before they are accepted (verify mode) */
+  verification?: TaskVerification;
+  /** JSON Schema the task's structured result must match (run_task output_schema) */
+  output_schema?: Record<string, unknown>;
   final_result?: {
     success: boolean;
     summary: string;
     total_steps: number;
     duration_ms: number;
+    verified?: boolean;
+    verification_reasoning?: string;
+    data?: Record<string, unknown>;
     error?: string;
   };
 }
 
+// ============================================
+// Event Log Types
+// ============================================
+
+/**
+ * Kind of entry in a task's event log
+ * - reasoning: text from the model
+ * - action: an action the model requested
+ * - tool_result: the outcome of that action
+ * - message: an operator message delivered to the agent
+ * - status: the task paused, resumed or finished
+ * - error: an action or API request failed
+ * - usage: tokens used by one model request
+ * - memory: older steps were summarized into the task memory
+ * - verification: a completion check passed or failed
+ */
+export type TaskEventType =
+  | "reasoning"
+  | "action"
+  | "tool_result"
+  | "message"
+  | "status"
+  | "error"
+  | "usage"
+  | "memory"
+  | "verification";
+
+/**
+ * One entry in a task's append-only event log. Stored at
+ * tenants/{tenantId}/events/{taskId}/{seq}.json
+ */
+export interface TaskEvent {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  timestamp: number;
+  type: TaskEventType;
+  /** Step number (matches AgentStep.step) for action, tool_result and error */
+  step?: number;
+  action?: string;
+  input?: ActionInput;
+  text?: string;
+  success?: boolean;
+  status?: TaskStatus;
+  usage?: TokenUsage;
+}
+
+// ============================================
+// Checkpoint & Continuation Types
+// ============================================
+
+/**
+ * Serialized agent loop state, written periodically and before handing
+ * off to a new function invocation. Stored at
+ * tenants/{tenantId}/checkpoints/{taskId}.json. Never contains API keys.
+ */
+export interface TaskCheckpoint {
+  task_id: string;
+  sandbox_name: string;
+  host: string;
+  task: string;
+  max_steps: number;
+  timeout_seconds: number;
+  /** Invocation number that should resume from this checkpoint (1-based) */
+  invocation: number;
+  saved_at: number;
+  progress: TaskProgress;
+  steps: AgentStep[];
+  /** Compacted message history */
+  messages: Anthropic.Beta.BetaMessageParam[];
+  meaningful_steps: number;
+  total_iterations: number;
+  held_keys: string[];
+  mouse_button_held: boolean;
+  delivered_messages: number;
+  last_reasoning?: string;
+  /** Summary of exchanges dropped from the message history */
+  memory?: string;
+  loop_detection?: LoopDetectionState;
+  /** Latest screenshot the model saw (capture_screenshots) */
+  last_screenshot?: ScreenshotImage;
+  /** Name it was stored under, once a meaningful action used it */
+  last_screenshot_name?: string;
+  screen_size: { width: number; height: number };
+}
+
+/**
+ * Loop detector state, saved in checkpoints
+ */
+export interface LoopDetectionState {
+  /** Signature of the last action and how many times in a row it was taken */
+  last_action?: string;
+  repeat_count: number;
+  /** Consecutive times the screen did not visibly change after acting */
+  unchanged_count: number;
+  /** Fingerprint of the latest screenshot */
+  screen?: string;
+  /** Fingerprint of the screen before actions not yet followed by a screenshot */
+  screen_before?: string;
+  /** Meaningful actions recorded so far */
+  actions: number;
+  /** Corrective messages sent within the warning window */
+  warnings: number;
+  /** Value of actions when the last corrective message was sent */
+  last_warning_action?: number;
+}
+
+/**
+ * Returned by executeTask when it stops at the end of its invocation
+ * budget and a continuation has been scheduled to resume it.
+ */
+export interface TaskSuspension {
+  task_id: string;
+  status: "suspended";
+  invocation: number;
+}
+
+/**
+ * Optional settings for executeTask
+ */
+export interface ExecuteTaskOptions {
+  /** Resume from this checkpoint instead of starting fresh */
+  checkpoint?: TaskCheckpoint;
+  /** URL to POST the final result to when the task finishes */
+  callbackUrl?: string;
+  /** Store the screen before each meaningful action and at the end */
+  captureScreenshots?: boolean;
+  /** Fail the task once its token usage or estimated cost exceeds these */
+  budget?: TaskBudget;
+  /**
+   * Check the screen against the task (or these criteria) before accepting
+   * a completion
+   */
+  verify?: { successCriteria?: string };
+  /**
+   * JSON Schema for a structured result. The agent finishes by calling a
+   * completion tool whose input must match it.
+   */
+  outputSchema?: Record<string, unknown>;
+  /**
+   * Enables checkpointing and hand-off to a new invocation. Without it the
+   * task runs in a single invocation until completion or timeout.
+   */
+  continuation?: {
+    /** Seconds this invocation may run before checkpointing and handing off */
+    budgetSeconds: number;
+    /** Trigger a new invocation that resumes from the saved checkpoint */
+    schedule: (taskId: string, invocation: number) => Promise<void>;
+  };
+  /** Called after each meaningful step with the updated progress */
+  onProgress?: (progress: TaskProgress) => void;
+  /**
+   * Keeps work alive after the task finishes (the completion callback).
+   * Without it, that work runs detached.
+   */
+  runInBackground?: (task: Promise<unknown>) => void;
+}
+
 // ============================================
 // Action Handler Types (new for modular design)
 // ============================================
@@ -106,11 +353,18 @@ export interface ActionInput {
 
 /**
  * Context required for action execution
- * Provides display dimensions for coordinate validation
+ * Provides display dimensions for coordinate validation and the real
+ * screen size the model's coordinates are mapped to
  */
 export interface ActionContext {
+  /** Width of the display as presented to the model */
   displayWidth: number;
+  /** Height of the display as presented to the model */
   displayHeight: number;
+  /** Real screen width */
+  screenWidth: number;
+  /** Real screen height */
+  screenHeight: number;
 }
 
 /**
@@ -0,0 +1,97 @@
+/**
+ * Token Usage
+ *
+ * Accounts for the tokens each model request uses, estimates their cost
+ * from the per-model prices in MODEL_CONFIGS, and checks them against
+ * the task's budget.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { TaskBudget, TokenUsage } from "./types.js";
+import type { ModelPricing } from "./config.js";
+
+const TOKENS_PER_MILLION = 1_000_000;
+
+/**
+ * Usage of a task that has not made any model requests
+ */
+export function emptyUsage(): TokenUsage {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0,
+    requests: 0,
+    cache_hits: 0,
+  };
+}
+
+/**
+ * Convert the usage reported for one model response
+ *
+ * @param usage - Usage from the API response
+ * @param pricing - Prices of the model that served it
+ * @returns Token counts and estimated cost of the request
+ */
+export function requestUsage(
+  usage: Anthropic.Beta.BetaUsage,
+  pricing: ModelPricing
+): TokenUsage {
+  const cacheCreation = usage.cache_creation_input_tokens ?? 0;
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cost =
+    (usage.input_tokens * pricing.input +
+      usage.output_tokens * pricing.output +
+      cacheCreation * pricing.cacheWrite +
+      cacheRead * pricing.cacheRead) /
+    TOKENS_PER_MILLION;
+  return {
+    input_tokens: usage.input_tokens,
+    output_tokens: usage.output_tokens,
+    cache_creation_input_tokens: cacheCreation,
+    cache_read_input_tokens: cacheRead,
+    total_tokens: usage.input_tokens + usage.output_tokens + cacheCreation + cacheRead,
+    cost_usd: cost,
+    requests: 1,
+    cache_hits: cacheRead > 0 ? 1 : 0,
+  };
+}
+
+/**
+ * Add one request's usage to a running total
+ *
+ * @param total - Task usage so far (mutated)
+ * @param request - Usage of the request
+ */
+export function addUsage(total: TokenUsage, request: TokenUsage): void {
+  total.input_tokens += request.input_tokens;
+  total.output_tokens += request.output_tokens;
+  total.cache_creation_input_tokens += request.cache_creation_input_tokens;
+  total.cache_read_input_tokens += request.cache_read_input_tokens;
+  total.total_tokens += request.total_tokens;
+  total.cost_usd += request.cost_usd;
+  total.requests += request.requests;
+  total.cache_hits += request.cache_hits;
+}
+
+/**
+ * Check usage against a budget
+ *
+ * @param usage - Task usage so far
+ * @param budget - Spending limits, if any
+ * @returns A description of the exceeded limit, or null if within budget
+ */
+export function checkBudget(
+  usage: TokenUsage,
+  budget: TaskBudget | undefined
+): string | null {
+  if (budget?.max_tokens !== undefined && usage.total_tokens > budget.max_tokens) {
+    return `Token budget exceeded: ${usage.total_tokens} tokens used (max ${budget.max_tokens})`;
+  }
+  if (budget?.max_cost_usd !== undefined && usage.cost_usd > budget.max_cost_usd) {
+    return `Cost budget exceeded: $${usage.cost_usd.toFixed(4)} spent (max $${budget.max_cost_usd})`;
+  }
+  return null;
+}
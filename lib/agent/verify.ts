@@ -0,0 +1,148 @@
+/**
+ * Completion Verification
+ *
+ * In verify mode, the agent's claim that a task is done is not taken at its
+ * word. A separate vision request looks at a fresh screenshot with the
+ * original task and the caller's success criteria, and returns a verdict
+ * with its reasoning.
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { CuaComputerClient } from "../cua-client.js";
+import type { ActionContext } from "./types.js";
+import {
+  RETRY_DELAY_MS,
+  VERIFICATION_MAX_TOKENS,
+  type ModelConfig,
+} from "./config.js";
+import { scaleScreenshot } from "./scaling.js";
+import { sleep } from "./utils.js";
+
+/**
+ * Outcome of a completion check
+ */
+export interface VerificationVerdict {
+  verified: boolean;
+  reasoning: string;
+  /** The check could not be run (no screenshot, or the request failed) */
+  unavailable?: boolean;
+  /** Usage of the verification request, if it was made */
+  usage?: Anthropic.Beta.BetaUsage;
+}
+
+const VERIFIER_PROMPT = `You independently verify the work of a computer use agent. The agent says it has finished a task. Judge from the screenshot of the screen as it is now whether the success criteria are actually met.
+
+Do not take the agent's summary on trust: it may be mistaken or premature. If the screenshot does not show enough to confirm the criteria, the task is not verified. Report your verdict with the report_verdict tool.`;
+
+const VERDICT_TOOL: Anthropic.Beta.BetaTool = {
+  name: "report_verdict",
+  description: "Report whether the task is verifiably complete",
+  input_schema: {
+    type: "object",
+    properties: {
+      verified: {
+        type: "boolean",
+        description: "True only if the screenshot shows the success criteria are met",
+      },
+      reasoning: {
+        type: "string",
+        description: "What on the screen supports the verdict, or what is missing",
+      },
+    },
+    required: ["verified", "reasoning"],
+  },
+};
+
+/**
+ * Check a claimed completion against a fresh screenshot
+ * Never throws - if the check cannot run, the verdict says so.
+ *
+ * @param anthropic - Anthropic client
+ * @param modelConfig - Model to verify with
+ * @param computer - The CUA computer client
+ * @param context - Display dimensions (screenshots are scaled like the agent's)
+ * @param task - The original task
+ * @param summary - The agent's completion summary
+ * @param successCriteria - What must be true; the task itself when omitted
+ * @returns The verdict
+ */
+export async function verifyCompletion(
+  anthropic: Anthropic,
+  modelConfig: ModelConfig,
+  computer: CuaComputerClient,
+  context: ActionContext,
+  task: string,
+  summary: string,
+  successCriteria?: string
+): Promise<VerificationVerdict> {
+  let screenshot = await computer.screenshot();
+  if (!screenshot.success || !screenshot.base64_image) {
+    await sleep(RETRY_DELAY_MS);
+    screenshot = await computer.screenshot();
+  }
+  if (!screenshot.success || !screenshot.base64_image) {
+    return {
+      verified: false,
+      unavailable: true,
+      reasoning: `Verification could not run: screenshot failed (${screenshot.error || "Unknown error"})`,
+    };
+  }
+
+  try {
+    const response = await anthropic.beta.messages.create({
+      model: modelConfig.model,
+      max_tokens: VERIFICATION_MAX_TOKENS,
+      system: VERIFIER_PROMPT,
+      tools: [VERDICT_TOOL],
+      tool_choice: { type: "tool", name: VERDICT_TOOL.name },
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image",
+              source: {
+                type: "base64",
+                media_type: "image/png",
+                data: scaleScreenshot(screenshot.base64_image, context),
+              },
+            },
+            {
+              type: "text",
+              text:
+                `Task: ${task}\n\n` +
+                `Success criteria: ${successCriteria ?? "The task above is fully accomplished."}\n\n` +
+                `Agent's summary: ${summary}`,
+            },
+          ],
+        },
+      ],
+    });
+
+    const verdict = response.content.find((block) => block.type === "tool_use");
+    const input = verdict?.type === "tool_use"
+      ? (verdict.input as { verified?: unknown; reasoning?: unknown })
+      : undefined;
+    if (typeof input?.verified !== "boolean") {
+      return {
+        verified: false,
+        unavailable: true,
+        reasoning: "Verification could not run: the verifier returned no verdict",
+        usage: response.usage,
+      };
+    }
+    return {
+      verified: input.verified,
+      reasoning: typeof input.reasoning === "string" ? input.reasoning : "",
+      usage: response.usage,
+    };
+  } catch (err) {
+    console.warn("[Agent] Completion verification failed:", err);
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      verified: false,
+      unavailable: true,
+      reasoning: `Verification could not run: ${message}`,
+    };
+  }
+}
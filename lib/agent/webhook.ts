@@ -0,0 +1,295 @@
+/**
+ * Task Completion Callbacks
+ *
+ * POSTs a task's final result to the callback_url given to run_task.
+ * Requests are signed with CUA_WEBHOOK_SECRET; without it, run_task
+ * rejects callback URLs.
+ *
+ * Receivers verify X-CUA-Signature, which is "sha256=" followed by the
+ * hex HMAC-SHA256 of "{X-CUA-Timestamp}.{raw body}".
+ */
+
+import { createHmac, randomUUID } from "node:crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { request } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import type { TaskProgress } from "./types.js";
+import { sleep } from "./utils.js";
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_TIMEOUT_MS,
+} from "./config.js";
+
+/** Event name sent in X-CUA-Event */
+export const TASK_FINISHED_EVENT = "task.finished";
+
+function getWebhookSecret(): string {
+  return process.env.CUA_WEBHOOK_SECRET || "";
+}
+
+/**
+ * Whether run_task accepts callback URLs
+ */
+export function isWebhookEnabled(): boolean {
+  return getWebhookSecret().length > 0;
+}
+
+/**
+ * Sign a callback body
+ *
+ * @param timestamp - Unix time in seconds, sent in X-CUA-Timestamp
+ * @param body - Raw request body
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function signWebhook(timestamp: number, body: string): string {
+  return createHmac("sha256", getWebhookSecret())
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// Unspecified, loopback, private, shared (CGNAT), link-local, benchmarking,
+// multicast and reserved IPv4 addresses
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// The eight 16-bit groups of a valid IPv6 address, with any embedded
+// dotted IPv4 part converted to groups
+function ipv6Groups(address: string): number[] {
+  let text = address.replace(/%.*$/, "");
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string | undefined) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const [head, tail] = text.split("::");
+  const front = parse(head);
+  if (tail === undefined) {
+    return front;
+  }
+  const back = parse(tail);
+  return [...front, ...new Array<number>(8 - front.length - back.length).fill(0), ...back];
+}
+
+// Unspecified, loopback, unique-local, link-local and multicast IPv6
+// addresses, and IPv4-mapped, IPv4-compatible and NAT64 addresses whose
+// IPv4 part is not public
+function isPrivateIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+  const zeros = (start: number, end: number) =>
+    groups.slice(start, end).every((group) => group === 0);
+
+  // IPv4-mapped ::ffff:0:0/96 and IPv4-compatible ::/96 (including :: and ::1)
+  if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateIPv4(embedded);
+  }
+  // NAT64: only the well-known prefix 64:ff9b::/96, to a public address
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return !zeros(2, 6) || isPrivateIPv4(embedded);
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xff80) === 0xfe80 ||
+    (groups[0] & 0xff00) === 0xff00
+  );
+}
+
+// Address literals and hostnames that are not on the public internet
+function isPrivateAddress(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  if (isIP(host) === 4) {
+    return isPrivateIPv4(host);
+  }
+  if (isIP(host) === 6) {
+    return isPrivateIPv6(host);
+  }
+  return false;
+}
+
+/**
+ * Validate a callback URL
+ * Only HTTPS URLs on public hosts are accepted.
+ *
+ * @param url - URL from run_task
+ * @returns An error message, or null if the URL is acceptable
+ */
+export function validateCallbackUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "callback_url must be a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "callback_url must use https";
+  }
+  if (parsed.username || parsed.password) {
+    return "callback_url must not contain credentials";
+  }
+  if (isPrivateAddress(parsed.hostname)) {
+    return "callback_url must point to a public host";
+  }
+  return null;
+}
+
+// Refused callback host; retrying would not help
+class NonPublicHostError extends Error {}
+
+// Resolves the callback host and refuses it if any address is private.
+// Used as the connection's lookup, so the connection goes to an address
+// that was checked rather than to a second resolution of the name.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  const lookupOptions = { family: options.family, hints: options.hints, all: true as const };
+  dnsLookup(hostname, lookupOptions, (err, addresses) => {
+    if (err) {
+      callback(err, "");
+      return;
+    }
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const detail = blocked ? ` (${blocked.address})` : "";
+      callback(
+        new NonPublicHostError(`Callback host ${hostname} resolves to a non-public address${detail}`),
+        ""
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// POST a callback body and return the response status. Redirects are not
+// followed.
+function postCallback(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Status codes worth retrying: timeouts, rate limits and server errors
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Deliver the completion callback for a finished task
+ * Retries with exponential backoff and records the outcome in
+ * progress.callback. Never throws.
+ *
+ * @param progress - Finalized progress with a pending callback (mutated)
+ */
+export async function deliverTaskCallback(progress: TaskProgress): Promise<void> {
+  const callback = progress.callback;
+  if (!callback || !progress.final_result) {
+    return;
+  }
+
+  const body = JSON.stringify({
+    event: TASK_FINISHED_EVENT,
+    task_id: progress.task_id,
+    sandbox_name: progress.sandbox_name,
+    status: progress.status,
+    ...progress.final_result,
+    finished_at: progress.updated_at,
+  });
+  // Same delivery ID across retries so receivers can deduplicate
+  const deliveryId = randomUUID();
+
+  // Re-checked at delivery: address literals never reach the DNS check
+  const urlError = validateCallbackUrl(callback.url);
+  if (urlError) {
+    callback.status = "failed";
+    callback.error = urlError;
+    console.error(`[Agent] Callback for task ${progress.task_id} not sent: ${urlError}`);
+    return;
+  }
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    callback.attempts = attempt;
+    callback.last_attempt_at = Date.now();
+    let retryable = true;
+    try {
+      const status = await postCallback(
+        callback.url,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "cua-mcp-server",
+          "X-CUA-Event": TASK_FINISHED_EVENT,
+          "X-CUA-Delivery": deliveryId,
+          "X-CUA-Timestamp": String(timestamp),
+          "X-CUA-Signature": `sha256=${signWebhook(timestamp, body)}`,
+        },
+        body
+      );
+      callback.response_status = status;
+      if (status >= 200 && status < 300) {
+        callback.status = "delivered";
+        delete callback.error;
+        console.log(
+          `[Agent] Delivered callback for task ${progress.task_id} (attempt ${attempt})`
+        );
+        return;
+      }
+      callback.error = `Callback endpoint responded ${status}`;
+      retryable = isRetryableStatus(status);
+    } catch (err) {
+      delete callback.response_status;
+      callback.error = err instanceof Error ? err.message : String(err);
+      retryable = !(err instanceof NonPublicHostError);
+    }
+
+    if (!retryable) {
+      break;
+    }
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      // Exponential backoff: 1s, 2s, 4s
+      await sleep(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  callback.status = "failed";
+  console.error(
+    `[Agent] Callback for task ${progress.task_id} failed after ${callback.attempts} attempt(s): ${callback.error}`
+  );
+}
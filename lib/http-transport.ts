@@ -0,0 +1,302 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves MCP over HTTP: POST for JSON-RPC messages (answered with JSON, or
+ * with an SSE stream of progress notifications), GET for a standalone SSE
+ * stream and DELETE to end a session. Written against node:http so the same
+ * code runs inside the Vercel function and the standalone server.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import {
+  handleMcpMessage,
+  errorResponse,
+  getProgressToken,
+  progressNotification,
+  PARSE_ERROR,
+  INVALID_REQUEST,
+  type McpRequest,
+  type McpResponse,
+  type McpNotification,
+  type RequestContext,
+} from "./mcp-server.js";
+
+const SESSION_ID_HEADER = "mcp-session-id";
+// Comment lines keep idle SSE connections from being dropped by proxies
+const SSE_KEEPALIVE_INTERVAL_MS = 15000;
+// Standalone GET streams are closed after this long; clients reconnect
+const SSE_STANDALONE_STREAM_SECONDS = 60;
+// Request bodies larger than this are rejected by the standalone server
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Mirrors the headers vercel.json adds to every response
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Accept, Authorization, X-CUA-API-Key, Mcp-Session-Id, " +
+    "Mcp-Protocol-Version, Last-Event-ID",
+  "Access-Control-Expose-Headers": "Mcp-Session-Id",
+};
+
+export interface HttpTransportOptions {
+  // Read the JSON-RPC payload; throws on malformed JSON
+  readBody: () => unknown | Promise<unknown>;
+  // Build the tool execution context for an authenticated request
+  createContext: (cuaApiKey: string) => RequestContext;
+}
+
+// Get the CUA API key from the request header or environment
+export function getApiKey(req: IncomingMessage): string {
+  const headerKey = req.headers["x-cua-api-key"] as string;
+  return headerKey || process.env.CUA_API_KEY || "";
+}
+
+// Send a JSON response body
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+// Whether the client accepts an SSE response
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+// Open an SSE response stream for JSON-RPC messages
+function openEventStream(res: ServerResponse) {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  let closed = false;
+  const keepalive = setInterval(() => {
+    if (!closed) res.write(": keepalive\n\n");
+  }, SSE_KEEPALIVE_INTERVAL_MS);
+  res.on("close", () => {
+    closed = true;
+    clearInterval(keepalive);
+  });
+
+  return {
+    send(message: McpResponse | McpNotification): void {
+      if (!closed) {
+        res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+      }
+    },
+    close(): void {
+      clearInterval(keepalive);
+      if (!closed) {
+        closed = true;
+        res.end();
+      }
+    },
+  };
+}
+
+// Handle one Streamable HTTP request
+export async function handleHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: HttpTransportOptions
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    res.statusCode = 200;
+    res.end();
+    return;
+  }
+
+  // Streamable HTTP: POST for messages, GET for a standalone SSE stream,
+  // DELETE to end a session
+  if (req.method !== "POST" && req.method !== "GET" && req.method !== "DELETE") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  const cuaApiKey = getApiKey(req);
+  if (!cuaApiKey) {
+    sendJson(res, 401, {
+      jsonrpc: "2.0",
+      id: null,
+      error: {
+        code: -32000,
+        message:
+          "CUA API key required. Set CUA_API_KEY env var or pass X-CUA-API-Key header.",
+      },
+    });
+    return;
+  }
+
+  // Sessions are stateless - there is nothing to tear down
+  if (req.method === "DELETE") {
+    res.statusCode = req.headers[SESSION_ID_HEADER] ? 204 : 400;
+    res.end();
+    return;
+  }
+
+  if (req.method === "GET") {
+    if (!acceptsEventStream(req)) {
+      sendJson(res, 406, { error: "GET requires Accept: text/event-stream" });
+      return;
+    }
+    // The server sends no unsolicited messages, so the stream only carries
+    // keep-alives until it is closed and the client reconnects
+    const stream = openEventStream(res);
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, SSE_STANDALONE_STREAM_SECONDS * 1000);
+      res.on("close", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    stream.close();
+    return;
+  }
+
+  const context = options.createContext(cuaApiKey);
+
+  let payload: unknown;
+  try {
+    payload = await options.readBody();
+  } catch {
+    sendJson(res, 400, errorResponse(null, PARSE_ERROR, "Parse error: invalid JSON"));
+    return;
+  }
+
+  try {
+    // JSON-RPC batch: answer every request in one array, omitting notifications
+    if (Array.isArray(payload)) {
+      if (payload.length === 0) {
+        sendJson(res, 400, errorResponse(null, INVALID_REQUEST, "Invalid Request: empty batch"));
+        return;
+      }
+      if (payload.some((message) => message?.method === "initialize")) {
+        res.setHeader("Mcp-Session-Id", randomUUID());
+      }
+      const responses = (
+        await Promise.all(payload.map((message) => handleMcpMessage(message, context)))
+      ).filter((response): response is McpResponse => response !== null);
+
+      if (responses.length === 0) {
+        res.statusCode = 202;
+        res.end();
+        return;
+      }
+      sendJson(res, 200, responses);
+      return;
+    }
+
+    const mcpRequest = payload as McpRequest;
+
+    if (mcpRequest?.method === "initialize") {
+      res.setHeader("Mcp-Session-Id", randomUUID());
+    }
+
+    // Stream progress notifications when the client supplied a progressToken
+    // and accepts SSE; otherwise answer with a single JSON body
+    const progressToken =
+      mcpRequest?.method === "tools/call" && mcpRequest.id !== undefined
+        ? getProgressToken(mcpRequest)
+        : undefined;
+    if (progressToken !== undefined && acceptsEventStream(req)) {
+      const stream = openEventStream(res);
+      const response = await handleMcpMessage(mcpRequest, {
+        ...context,
+        onTaskProgress: (progress) =>
+          stream.send(progressNotification(progressToken, progress)),
+      });
+      if (response) {
+        stream.send(response);
+      }
+      stream.close();
+      return;
+    }
+
+    const response = await handleMcpMessage(payload, context);
+    if (!response) {
+      // Notifications and responses are acknowledged without a body
+      res.statusCode = 202;
+      res.end();
+      return;
+    }
+    sendJson(res, 200, response);
+  } catch (error) {
+    sendJson(res, 500, {
+      jsonrpc: "2.0",
+      id: null,
+      error: {
+        code: -32000,
+        message: error instanceof Error ? error.message : "Internal server error",
+      },
+    });
+  }
+}
+
+// Read and parse a JSON request body from the socket
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Create a standalone HTTP server exposing the MCP endpoint at /mcp
+ *
+ * @param createContext - Builds the tool execution context for a request
+ * @returns An unstarted node:http server
+ */
+export function createMcpHttpServer(
+  createContext: (cuaApiKey: string) => RequestContext
+): Server {
+  return createServer((req, res) => {
+    for (const [name, value] of Object.entries(CORS_HEADERS)) {
+      res.setHeader(name, value);
+    }
+
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/mcp" && pathname !== "/api/mcp") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    handleHttpRequest(req, res, {
+      readBody: () => readJsonBody(req),
+      createContext,
+    }).catch((error) => {
+      console.error("[MCP] Unhandled request error:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+}
@@ -0,0 +1,1297 @@
+/**
+ * MCP Server
+ *
+ * Transport-independent MCP protocol handling: JSON-RPC envelope
+ * validation, method dispatch and tool execution. The Vercel handler,
+ * the standalone HTTP server and the stdio transport all feed messages
+ * through handleMcpMessage.
+ */
+
+import { CuaSandboxClient } from "./cua-client.js";
+import {
+  executeTask,
+  executeTaskInBackground,
+  describeScreen,
+  getSandboxHost,
+  generateTaskId,
+  initializeProgress,
+  requestCancellation,
+  setTaskPaused,
+  queueTaskMessage,
+  DEFAULT_MAX_STEPS,
+  MAX_STEPS_LIMIT,
+  DEFAULT_TIMEOUT_SECONDS,
+  MAX_TIMEOUT_SECONDS,
+  getMaxResumableTimeoutSeconds,
+  SANDBOX_NAME_MAX_LENGTH,
+  TASK_ID_MAX_LENGTH,
+  TASK_MESSAGE_MAX_LENGTH,
+  OUTPUT_SCHEMA_MAX_LENGTH,
+  checkOutputSchema,
+  listTasks,
+  purgeTasks,
+  sweepExpiredTasks,
+  getLastSweep,
+  listTaskEvents,
+  listScreenshots,
+  loadScreenshot,
+  createScreenshotReference,
+  verifyScreenshotReference,
+  generateTaskReport,
+  loadTaskReport,
+  REPORT_EXTENSIONS,
+  REPORT_MIME_TYPES,
+  type ReportFormat,
+  isWebhookEnabled,
+  validateCallbackUrl,
+  type TaskStatus,
+  type TaskResult,
+  type TaskProgress,
+  type ExecuteTaskOptions,
+  type TaskBudget,
+} from "./agent/index.js";
+import { TOOLS, RESOURCE_TEMPLATES, PROMPTS } from "./tool-schemas.js";
+import { getTaskStore, getTenantId, taskRecordPath, tenantPrefix } from "./storage/index.js";
+
+// Protocol versions this server speaks, newest first
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+const INVALID_PARAMS = -32602;
+const RESOURCE_NOT_FOUND = -32002;
+
+// Statuses accepted by the list_tasks status filter
+const TASK_STATUSES: TaskStatus[] = [
+  "running",
+  "paused",
+  "completed",
+  "failed",
+  "timeout",
+  "cancelled",
+];
+
+// MCP resources: cua://tasks/{task_id} and cua://tasks/{task_id}/steps/{n}
+const TASK_RESOURCE_URI = /^cua:\/\/tasks\/([a-zA-Z0-9_-]+)(?:\/steps\/(\d+))?$/;
+const RESOURCES_PAGE_SIZE = 50;
+// Reports from generate_task_report: cua://tasks/{task_id}/report.{html,md}
+const REPORT_RESOURCE_URI = /^cua:\/\/tasks\/([a-zA-Z0-9_-]+)\/report\.(html|md)$/;
+// Signed screenshot references from get_task_screenshot
+const SCREENSHOT_RESOURCE_URI =
+  /^cua:\/\/tasks\/([a-zA-Z0-9_-]+)\/screenshots\/(step-\d+|final)\?expires=(\d+)&signature=([0-9a-f]+)$/;
+
+// MCP Protocol Types
+export interface McpRequest {
+  jsonrpc: "2.0";
+  id: string | number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface McpResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export interface McpNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Per-request context for tool execution, supplied by the transport
+export interface RequestContext {
+  cuaApiKey: string;
+  anthropicApiKey: string;
+  // Keeps a background task alive after the response is sent
+  // (waitUntil on Vercel, a detached promise in a long-lived process)
+  runInBackground: (task: Promise<unknown>) => void;
+  // Set when tasks run in a long-lived process with no duration limit
+  inProcess?: boolean;
+  // Set when background tasks may hand off to a later invocation
+  continuation?: ExecuteTaskOptions["continuation"];
+  // Set when the client asked for progress over an SSE response stream.
+  // run_task then runs synchronously and reports each step through it.
+  onTaskProgress?: (progress: TaskProgress) => void;
+}
+
+// Validate sandbox name to prevent injection attacks
+function isValidSandboxName(name: unknown): name is string {
+  return (
+    typeof name === "string" &&
+    name.length > 0 &&
+    name.length <= SANDBOX_NAME_MAX_LENGTH &&
+    /^[a-zA-Z0-9_-]+$/.test(name)
+  );
+}
+
+// Validate task ID to prevent path traversal and injection
+export function isValidTaskId(id: unknown): id is string {
+  return (
+    typeof id === "string" &&
+    id.length > 0 &&
+    id.length <= TASK_ID_MAX_LENGTH &&
+    /^[a-zA-Z0-9_-]+$/.test(id)
+  );
+}
+
+// Get the Anthropic API key from the environment
+export function getAnthropicApiKey(): string {
+  return process.env.ANTHROPIC_API_KEY || "";
+}
+
+// Format progress response for get_task_progress
+function formatProgressResponse(progress: TaskProgress) {
+  if (
+    progress.status === "completed" ||
+    progress.status === "failed" ||
+    progress.status === "timeout" ||
+    progress.status === "cancelled"
+  ) {
+    return {
+      task_id: progress.task_id,
+      status: progress.status,
+      result: progress.final_result,
+      ...(progress.usage ? { usage: progress.usage } : {}),
+      ...(progress.callback ? { callback: progress.callback } : {}),
+    };
+  }
+
+  return {
+    task_id: progress.task_id,
+    status: progress.status,
+    progress: {
+      current_step: progress.current_step,
+      max_steps: progress.max_steps,
+      elapsed_ms: progress.elapsed_ms,
+      timeout_seconds: progress.timeout_seconds,
+      last_action: progress.last_action?.action,
+      last_reasoning: progress.last_reasoning,
+      steps_summary: progress.steps_summary,
+      last_event_seq: progress.last_event_seq,
+    },
+    ...(progress.usage ? { usage: progress.usage } : {}),
+    ...(progress.budget ? { budget: progress.budget } : {}),
+    ...(progress.callback ? { callback: progress.callback } : {}),
+  };
+}
+
+// Load the latest progress record for a task owned by the tenant
+async function loadProgress(
+  tenantId: string,
+  taskId: string
+): Promise<TaskProgress | null> {
+  return getTaskStore().getJson<TaskProgress>(
+    taskRecordPath(tenantId, "progress", taskId)
+  );
+}
+
+// Load the stored result of a finished task owned by the tenant
+async function loadTaskResult(
+  tenantId: string,
+  taskId: string
+): Promise<TaskResult | null> {
+  return getTaskStore().getJson<TaskResult>(
+    taskRecordPath(tenantId, "tasks", taskId)
+  );
+}
+
+// List the tenant's stored task histories as MCP resources, one page at a time
+async function listTaskResources(tenantId: string, cursor?: string) {
+  const prefix = tenantPrefix(tenantId, "tasks");
+  const page = await getTaskStore().list(prefix, {
+    limit: RESOURCES_PAGE_SIZE,
+    cursor,
+  });
+  const resources = page.objects.map((object) => {
+    const taskId = object.path.slice(prefix.length).replace(/\.json$/, "");
+    return {
+      uri: `cua://tasks/${taskId}`,
+      name: taskId,
+      description: `Task history recorded ${new Date(object.uploaded_at).toISOString()}`,
+      mimeType: "application/json",
+      size: object.size,
+    };
+  });
+  return {
+    resources,
+    ...(page.cursor ? { nextCursor: page.cursor } : {}),
+  };
+}
+
+// Read a task history or a single step of it.
+// Returns null if the URI is not a task resource or does not exist.
+async function readTaskResource(tenantId: string, uri: string) {
+  const match = TASK_RESOURCE_URI.exec(uri);
+  if (!match) {
+    return null;
+  }
+  const [, taskId, stepNumber] = match;
+  const result = await loadTaskResult(tenantId, taskId);
+  if (!result) {
+    return null;
+  }
+
+  let body: unknown = result;
+  if (stepNumber !== undefined) {
+    const step = result.steps.find((s) => s.step === Number(stepNumber));
+    if (!step) {
+      return null;
+    }
+    body = step;
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(body, null, 2),
+      },
+    ],
+  };
+}
+
+// Read a screenshot through a signed reference from get_task_screenshot.
+// Returns null if the URI is not a screenshot reference, has expired, was
+// issued to another key, or the screenshot does not exist.
+async function readScreenshotResource(cuaApiKey: string, uri: string) {
+  const match = SCREENSHOT_RESOURCE_URI.exec(uri);
+  if (!match) {
+    return null;
+  }
+  const [, taskId, name, expires, signature] = match;
+  if (!verifyScreenshotReference(cuaApiKey, taskId, name, Number(expires), signature)) {
+    return null;
+  }
+  const screenshot = await loadScreenshot(getTenantId(cuaApiKey), taskId, name);
+  if (!screenshot) {
+    return null;
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: screenshot.media_type,
+        blob: screenshot.data,
+      },
+    ],
+  };
+}
+
+// Read a stored task report.
+// Returns null if the URI is not a report or it has not been generated.
+async function readReportResource(tenantId: string, uri: string) {
+  const match = REPORT_RESOURCE_URI.exec(uri);
+  if (!match) {
+    return null;
+  }
+  const [, taskId, extension] = match;
+  const format: ReportFormat = extension === "html" ? "html" : "markdown";
+  const report = await loadTaskReport(tenantId, taskId, format);
+  if (!report) {
+    return null;
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: REPORT_MIME_TYPES[format],
+        text: report.content,
+      },
+    ],
+  };
+}
+
+// Whether a tool result reports that the call itself failed.
+// Task results (which carry their steps) describe the task, so reading
+// the history of a failed task is still a successful call.
+function isToolFailure(result: unknown): boolean {
+  if (typeof result !== "object" || result === null) {
+    return false;
+  }
+  const fields = result as Record<string, unknown>;
+  if (Array.isArray(fields.steps)) {
+    return false;
+  }
+  return fields.success === false || fields.status === "error";
+}
+
+// Expand a prompt template into a user message asking for a run_task call.
+// Throws with a descriptive message if the arguments are invalid.
+function getPrompt(name: string, args: Record<string, unknown>) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const argument of prompt.arguments) {
+    const value = args[argument.name];
+    if (typeof value === "string" && value.trim()) {
+      values[argument.name] = value.trim();
+    } else if (argument.required) {
+      throw new Error(`Missing required argument: ${argument.name}`);
+    }
+  }
+  if (!isValidSandboxName(values.sandbox_name)) {
+    throw new Error("Invalid sandbox name");
+  }
+
+  const runTaskArgs = {
+    sandbox_name: values.sandbox_name,
+    task: prompt.buildTask(values),
+  };
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text:
+            `Call the run_task tool with these arguments:\n\n` +
+            `${JSON.stringify(runTaskArgs, null, 2)}\n\n` +
+            `Then follow the task with get_task_progress until it finishes and report the result summary.`,
+        },
+      },
+    ],
+  };
+}
+
+// Parse an optional ISO 8601 timestamp argument to ms since epoch.
+// Returns null if the value is present but not a valid timestamp.
+function parseTimestamp(value: unknown): number | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time;
+}
+
+// Check that a task exists and is still running or paused.
+// Returns an error result for the tool, or null if the task can be controlled.
+async function checkTaskActive(
+  tenantId: string,
+  taskId: string
+): Promise<Record<string, unknown> | null> {
+  const progress = await loadProgress(tenantId, taskId);
+  if (!progress) {
+    return { success: false, task_id: taskId, error: "Task not found" };
+  }
+  if (progress.status !== "running" && progress.status !== "paused") {
+    return {
+      success: false,
+      task_id: taskId,
+      status: progress.status,
+      error: `Task is not running (status: ${progress.status})`,
+    };
+  }
+  return null;
+}
+
+// Tool execution handler
+async function executeTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: RequestContext
+): Promise<unknown> {
+  const { cuaApiKey, anthropicApiKey } = context;
+  // Tasks are only visible to callers using the key that started them
+  const tenantId = getTenantId(cuaApiKey);
+  const sandboxClient = new CuaSandboxClient(cuaApiKey);
+
+  switch (toolName) {
+    // ==========================================
+    // Sandbox Management
+    // ==========================================
+    case "list_sandboxes":
+      return { sandboxes: await sandboxClient.listSandboxes() };
+
+    case "get_sandbox": {
+      if (!isValidSandboxName(args.name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      const sandbox = await sandboxClient.getSandbox(args.name);
+      if (!sandbox) {
+        return { success: false, error: `Sandbox not found: ${args.name}` };
+      }
+      return sandbox;
+    }
+
+    case "start_sandbox": {
+      if (!isValidSandboxName(args.name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      return await sandboxClient.startSandbox(args.name);
+    }
+
+    case "stop_sandbox": {
+      if (!isValidSandboxName(args.name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      return await sandboxClient.stopSandbox(args.name);
+    }
+
+    case "restart_sandbox": {
+      if (!isValidSandboxName(args.name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      return await sandboxClient.restartSandbox(args.name);
+    }
+
+    // ==========================================
+    // Agentic Tools
+    // ==========================================
+    case "describe_screen": {
+      if (!isValidSandboxName(args.sandbox_name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      const sandboxName = args.sandbox_name;
+      // Validate focus enum - default to "ui" if invalid
+      const validFocusValues = ["ui", "text", "full"] as const;
+      const rawFocus = args.focus as string | undefined;
+      const focus = validFocusValues.includes(rawFocus as "ui" | "text" | "full")
+        ? (rawFocus as "ui" | "text" | "full")
+        : "ui";
+      const question = args.question as string | undefined;
+
+      // Get sandbox host
+      const host = await getSandboxHost(sandboxName, cuaApiKey);
+      if (!host) {
+        return {
+          success: false,
+          error: `Sandbox not found: ${sandboxName}`,
+        };
+      }
+
+      if (!anthropicApiKey) {
+        return {
+          success: false,
+          error: "ANTHROPIC_API_KEY not configured on server",
+        };
+      }
+
+      const result = await describeScreen(
+        sandboxName,
+        host,
+        cuaApiKey,
+        anthropicApiKey,
+        focus,
+        question
+      );
+
+      return result;
+    }
+
+    case "run_task": {
+      if (!isValidSandboxName(args.sandbox_name)) {
+        return { success: false, error: "Invalid sandbox name", summary: "Failed to start task" };
+      }
+      const sandboxName = args.sandbox_name;
+      const task = args.task as string;
+      if (typeof task !== "string" || !task.trim()) {
+        return { success: false, error: "Task description is required", summary: "Failed to start task" };
+      }
+      const rawMaxSteps = Number(args.max_steps);
+      const maxSteps = Math.min(
+        Number.isFinite(rawMaxSteps) && rawMaxSteps > 0 ? rawMaxSteps : DEFAULT_MAX_STEPS,
+        MAX_STEPS_LIMIT
+      );
+      // Streaming run_task executes within this request, so it is limited to
+      // one invocation; background tasks may continue across invocations
+      const streaming = !!context.onTaskProgress;
+      const continuation = streaming ? undefined : context.continuation;
+      const rawTimeout = Number(args.timeout_seconds);
+      const timeoutSeconds = Math.min(
+        Number.isFinite(rawTimeout) && rawTimeout > 0 ? rawTimeout : DEFAULT_TIMEOUT_SECONDS,
+        context.inProcess || continuation
+          ? getMaxResumableTimeoutSeconds()
+          : MAX_TIMEOUT_SECONDS
+      );
+
+      // Completion callback, signed with the server's webhook secret
+      const callbackUrl = args.callback_url;
+      if (callbackUrl !== undefined) {
+        if (typeof callbackUrl !== "string") {
+          return { success: false, error: "callback_url must be a string", summary: "Failed to start task" };
+        }
+        if (!isWebhookEnabled()) {
+          return {
+            success: false,
+            error: "callback_url requires CUA_WEBHOOK_SECRET to be configured on the server",
+            summary: "Failed to start task",
+          };
+        }
+        const callbackError = validateCallbackUrl(callbackUrl);
+        if (callbackError) {
+          return { success: false, error: callbackError, summary: "Failed to start task" };
+        }
+      }
+
+      // Store screenshots for debugging (opt-in; see get_task_screenshot)
+      const captureScreenshots = args.capture_screenshots === true;
+
+      // Optional spending limits, checked after every model request
+      const budget: TaskBudget = {};
+      if (args.max_cost_usd !== undefined) {
+        const maxCost = Number(args.max_cost_usd);
+        if (!(maxCost > 0)) {
+          return {
+            success: false,
+            error: "max_cost_usd must be a positive number",
+            summary: "Failed to start task",
+          };
+        }
+        budget.max_cost_usd = maxCost;
+      }
+      if (args.max_tokens !== undefined) {
+        const maxTokens = Number(args.max_tokens);
+        if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+          return {
+            success: false,
+            error: "max_tokens must be a positive integer",
+            summary: "Failed to start task",
+          };
+        }
+        budget.max_tokens = maxTokens;
+      }
+      const hasBudget = budget.max_cost_usd !== undefined || budget.max_tokens !== undefined;
+
+      // Verify mode: completions are checked against the screen before they
+      // are accepted. success_criteria implies verify.
+      const successCriteria = args.success_criteria;
+      if (successCriteria !== undefined && (typeof successCriteria !== "string" || !successCriteria.trim())) {
+        return {
+          success: false,
+          error: "success_criteria must be a non-empty string",
+          summary: "Failed to start task",
+        };
+      }
+      const verify =
+        args.verify === true || successCriteria !== undefined
+          ? { successCriteria: successCriteria?.trim() }
+          : undefined;
+
+      // Structured result: the agent must finish with an object matching this schema
+      const outputSchema = args.output_schema;
+      if (outputSchema !== undefined) {
+        const schemaError = checkOutputSchema(outputSchema);
+        if (schemaError) {
+          return { success: false, error: schemaError, summary: "Failed to start task" };
+        }
+        if (JSON.stringify(outputSchema).length > OUTPUT_SCHEMA_MAX_LENGTH) {
+          return {
+            success: false,
+            error: `output_schema exceeds ${OUTPUT_SCHEMA_MAX_LENGTH} characters`,
+            summary: "Failed to start task",
+          };
+        }
+      }
+
+      // Get sandbox host
+      const host = await getSandboxHost(sandboxName, cuaApiKey);
+      if (!host) {
+        return {
+          success: false,
+          error: `Sandbox not found: ${sandboxName}`,
+          summary: "Failed to start task",
+        };
+      }
+
+      if (!anthropicApiKey) {
+        return {
+          success: false,
+          error: "ANTHROPIC_API_KEY not configured on server",
+          summary: "Failed to start task",
+        };
+      }
+
+      // Delete the tenant's expired task data (throttled; usually a no-op)
+      context.runInBackground(sweepExpiredTasks(tenantId));
+
+      // Generate task ID and initialize progress BEFORE returning
+      const taskId = generateTaskId();
+      await initializeProgress(
+        tenantId,
+        taskId,
+        sandboxName,
+        task,
+        maxSteps,
+        timeoutSeconds,
+        callbackUrl
+      );
+
+      // Run synchronously, streaming progress notifications to the caller
+      if (streaming) {
+        const result = await executeTaskInBackground(
+          taskId,
+          sandboxName,
+          host,
+          cuaApiKey,
+          anthropicApiKey,
+          task,
+          maxSteps,
+          timeoutSeconds,
+          {
+            callbackUrl,
+            captureScreenshots,
+            budget: hasBudget ? budget : undefined,
+            verify,
+            outputSchema: outputSchema as Record<string, unknown> | undefined,
+            onProgress: context.onTaskProgress,
+            runInBackground: context.runInBackground,
+          }
+        );
+        return result;
+      }
+
+      // Schedule background execution
+      const backgroundTask = executeTaskInBackground(
+        taskId,
+        sandboxName,
+        host,
+        cuaApiKey,
+        anthropicApiKey,
+        task,
+        maxSteps,
+        timeoutSeconds,
+        {
+          callbackUrl,
+          captureScreenshots,
+          budget: hasBudget ? budget : undefined,
+          verify,
+          outputSchema: outputSchema as Record<string, unknown> | undefined,
+          continuation,
+          runInBackground: context.runInBackground,
+        }
+      );
+
+      // Continue execution after the response is sent
+      context.runInBackground(backgroundTask);
+
+      // Return immediately with "running" status
+      return {
+        task_id: taskId,
+        status: "running",
+        message: "Task started. Poll get_task_progress for updates.",
+      };
+    }
+
+    case "get_task_history": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      // Results of other tenants' tasks are reported as not found
+      const result = await loadTaskResult(tenantId, taskId);
+      if (!result) {
+        return { success: false, error: "Task not found" };
+      }
+      return result;
+    }
+
+    case "list_tasks": {
+      if (args.sandbox_name !== undefined && !isValidSandboxName(args.sandbox_name)) {
+        return { success: false, error: "Invalid sandbox name" };
+      }
+      if (args.status !== undefined && !TASK_STATUSES.includes(args.status as TaskStatus)) {
+        return {
+          success: false,
+          error: `status must be one of: ${TASK_STATUSES.join(", ")}`,
+        };
+      }
+      const startedAfter = parseTimestamp(args.started_after);
+      const startedBefore = parseTimestamp(args.started_before);
+      if (startedAfter === null || startedBefore === null) {
+        return {
+          success: false,
+          error: "started_after and started_before must be ISO 8601 timestamps",
+        };
+      }
+      if (args.query !== undefined && typeof args.query !== "string") {
+        return { success: false, error: "query must be a string" };
+      }
+      if (args.cursor !== undefined && typeof args.cursor !== "string") {
+        return { success: false, error: "cursor must be a string" };
+      }
+
+      context.runInBackground(sweepExpiredTasks(tenantId));
+      return listTasks(tenantId, {
+        sandbox_name: args.sandbox_name,
+        status: args.status as TaskStatus | undefined,
+        started_after: startedAfter,
+        started_before: startedBefore,
+        query: args.query,
+        limit: Number(args.limit) || undefined,
+        cursor: args.cursor,
+      });
+    }
+
+    case "purge_tasks": {
+      const finalStatuses: TaskStatus[] = ["completed", "failed", "timeout", "cancelled"];
+      if (args.status !== undefined && !finalStatuses.includes(args.status as TaskStatus)) {
+        return {
+          success: false,
+          error: `status must be one of: ${finalStatuses.join(", ")}`,
+        };
+      }
+      const olderThanDays =
+        args.older_than_days === undefined ? undefined : Number(args.older_than_days);
+      if (olderThanDays !== undefined && !(olderThanDays >= 0)) {
+        return { success: false, error: "older_than_days must be a non-negative number" };
+      }
+
+      const report = await purgeTasks(tenantId, {
+        status: args.status as TaskStatus | undefined,
+        older_than_days: olderThanDays,
+        dry_run: args.dry_run === true,
+      });
+      const lastSweep = await getLastSweep(tenantId);
+      return { ...report, ...(lastSweep ? { last_sweep: lastSweep } : {}) };
+    }
+
+    case "get_task_progress": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { task_id: "", status: "error", error: "Invalid task_id format" };
+      }
+
+      const progress = await loadProgress(tenantId, taskId);
+      if (progress) {
+        return formatProgressResponse(progress);
+      }
+
+      // Check if task completed (progress might be stale but task finished)
+      const result = await loadTaskResult(tenantId, taskId);
+      if (!result) {
+        // Neither progress nor result found
+        return { task_id: taskId, status: "not_found" };
+      }
+      return {
+        task_id: taskId,
+        status: result.status ?? (result.success ? "completed" : "failed"),
+        result: {
+          success: result.success,
+          summary: result.summary,
+          total_steps: result.steps_taken,
+          duration_ms: result.duration_ms,
+          ...(result.verified !== undefined
+            ? { verified: result.verified, verification_reasoning: result.verification_reasoning }
+            : {}),
+          ...(result.data !== undefined ? { data: result.data } : {}),
+          error: result.error,
+        },
+        ...(result.usage ? { usage: result.usage } : {}),
+      };
+    }
+
+    case "get_task_events": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { task_id: "", status: "error", events: [], error: "Invalid task_id format" };
+      }
+      const afterSeq = args.after_seq === undefined ? 0 : Number(args.after_seq);
+      if (!Number.isInteger(afterSeq) || afterSeq < 0) {
+        return {
+          task_id: taskId,
+          status: "error",
+          events: [],
+          error: "after_seq must be a non-negative integer",
+        };
+      }
+
+      // Tasks are only visible to the tenant that started them
+      const progress = await loadProgress(tenantId, taskId);
+      const result = progress ? null : await loadTaskResult(tenantId, taskId);
+      if (!progress && !result) {
+        return { task_id: taskId, status: "not_found", events: [] };
+      }
+
+      const page = await listTaskEvents(tenantId, taskId, afterSeq, Number(args.limit) || undefined);
+      return {
+        task_id: taskId,
+        status: progress?.status ?? result?.status ?? (result?.success ? "completed" : "failed"),
+        events: page.events,
+        last_seq: page.events.length > 0 ? page.events[page.events.length - 1].seq : afterSeq,
+        has_more: page.has_more,
+      };
+    }
+
+    case "get_task_screenshot": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      const step = args.step === undefined ? undefined : Number(args.step);
+      if (step !== undefined && !(Number.isInteger(step) && step > 0)) {
+        return { success: false, task_id: taskId, error: "step must be a positive integer" };
+      }
+
+      // Screenshots live under the tenant's prefix, so other tenants' tasks
+      // look the same as tasks without captures
+      const screenshots = await listScreenshots(tenantId, taskId);
+      if (screenshots.length === 0) {
+        return {
+          success: false,
+          task_id: taskId,
+          error: "No screenshots stored for this task. Start it with capture_screenshots: true.",
+        };
+      }
+
+      // Without a step: the final screen (listed last), or the latest step
+      // if the task is still running
+      const screenshot =
+        step !== undefined
+          ? screenshots.find((s) => s.step === step)
+          : screenshots[screenshots.length - 1];
+      if (!screenshot) {
+        return {
+          success: false,
+          task_id: taskId,
+          error: `No screenshot stored for step ${step}`,
+          available_steps: screenshots.flatMap((s) => (s.step !== undefined ? [s.step] : [])),
+        };
+      }
+
+      const reference = createScreenshotReference(cuaApiKey, taskId, screenshot.name);
+      return {
+        success: true,
+        task_id: taskId,
+        screenshot: screenshot.name,
+        ...(screenshot.step !== undefined ? { step: screenshot.step } : {}),
+        captured_at: screenshot.captured_at,
+        uri: reference.uri,
+        expires_at: reference.expires_at,
+        available_steps: screenshots.flatMap((s) => (s.step !== undefined ? [s.step] : [])),
+        message: "Read the uri with resources/read before it expires to get the image.",
+      };
+    }
+
+    case "generate_task_report": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      const format = args.format ?? "html";
+      if (format !== "html" && format !== "markdown") {
+        return { success: false, task_id: taskId, error: "format must be 'html' or 'markdown'" };
+      }
+
+      const report = await generateTaskReport(tenantId, taskId, format);
+      if (!report) {
+        const progress = await loadProgress(tenantId, taskId);
+        let error = `Task not found: ${taskId}`;
+        if (progress?.status === "running" || progress?.status === "paused") {
+          error = "Task has not finished yet. Reports are available once it completes.";
+        } else if (progress) {
+          error = `No result was stored for this task (status: ${progress.status}), so no report is available.`;
+        }
+        return { success: false, task_id: taskId, error };
+      }
+
+      return {
+        success: true,
+        task_id: taskId,
+        format,
+        uri: `cua://tasks/${taskId}/report.${REPORT_EXTENSIONS[format]}`,
+        mime_type: REPORT_MIME_TYPES[format],
+        size: report.content.length,
+        generated_at: report.generated_at,
+        // HTML reports embed screenshots and are only returned by reference
+        ...(format === "markdown" ? { content: report.content } : {}),
+      };
+    }
+
+    case "cancel_task": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      const reason = typeof args.reason === "string" ? args.reason : undefined;
+
+      // Only running or paused tasks can be cancelled
+      const inactiveError = await checkTaskActive(tenantId, taskId);
+      if (inactiveError) {
+        return inactiveError;
+      }
+
+      await requestCancellation(tenantId, taskId, reason);
+
+      return {
+        success: true,
+        task_id: taskId,
+        status: "cancelling",
+        message:
+          "Cancellation requested. The task will stop before its next action. Poll get_task_progress for the final status.",
+      };
+    }
+
+    case "pause_task":
+    case "resume_task": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      const inactiveError = await checkTaskActive(tenantId, taskId);
+      if (inactiveError) {
+        return inactiveError;
+      }
+
+      const paused = toolName === "pause_task";
+      await setTaskPaused(tenantId, taskId, paused);
+
+      return {
+        success: true,
+        task_id: taskId,
+        status: paused ? "pausing" : "resuming",
+        message: paused
+          ? "Pause requested. The task will idle after its current step until resumed."
+          : "Resume requested. The task will continue within a few seconds.",
+      };
+    }
+
+    case "send_task_message": {
+      const taskId = args.task_id as string;
+      if (!isValidTaskId(taskId)) {
+        return { success: false, error: "Invalid task_id format" };
+      }
+      const message = args.message;
+      if (typeof message !== "string" || !message.trim()) {
+        return { success: false, task_id: taskId, error: "Message is required" };
+      }
+      if (message.length > TASK_MESSAGE_MAX_LENGTH) {
+        return {
+          success: false,
+          task_id: taskId,
+          error: `Message exceeds ${TASK_MESSAGE_MAX_LENGTH} characters`,
+        };
+      }
+      const inactiveError = await checkTaskActive(tenantId, taskId);
+      if (inactiveError) {
+        return inactiveError;
+      }
+
+      const queued = await queueTaskMessage(tenantId, taskId, message.trim());
+
+      return {
+        success: true,
+        task_id: taskId,
+        messages_queued: queued,
+        message:
+          "Message queued. It will be delivered to the agent before its next step (after resume if the task is paused).",
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${toolName}`);
+  }
+}
+
+// Agree on the client's protocol version if we support it, else offer our latest
+function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" &&
+    SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+// Build a JSON-RPC error response
+export function errorResponse(
+  id: string | number | null,
+  code: number,
+  message: string
+): McpResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+// MCP Message Dispatcher
+// Validates the JSON-RPC envelope of a single message. Returns null for
+// notifications and client responses, which receive no reply.
+export async function handleMcpMessage(
+  message: unknown,
+  context: RequestContext
+): Promise<McpResponse | null> {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    return errorResponse(null, INVALID_REQUEST, "Invalid Request: expected an object");
+  }
+  const envelope = message as Record<string, unknown>;
+  const { id } = envelope;
+  const hasValidId =
+    typeof id === "string" || (typeof id === "number" && Number.isFinite(id));
+  const replyId = hasValidId ? id : null;
+
+  if (envelope.jsonrpc !== "2.0") {
+    return errorResponse(
+      replyId,
+      INVALID_REQUEST,
+      'Invalid Request: jsonrpc must be "2.0"'
+    );
+  }
+
+  // Responses to server-initiated requests - the server sends none, so ignore
+  if (envelope.method === undefined && ("result" in envelope || "error" in envelope)) {
+    return null;
+  }
+
+  if (typeof envelope.method !== "string") {
+    return errorResponse(
+      replyId,
+      INVALID_REQUEST,
+      "Invalid Request: method must be a string"
+    );
+  }
+  const { params } = envelope;
+  if (
+    params !== undefined &&
+    (typeof params !== "object" || params === null || Array.isArray(params))
+  ) {
+    return errorResponse(
+      replyId,
+      INVALID_REQUEST,
+      "Invalid Request: params must be an object"
+    );
+  }
+
+  // Notifications (no id) are never answered, known or not
+  if (!("id" in envelope)) {
+    if (envelope.method === "notifications/initialized") {
+      console.log("[MCP] Client initialized");
+    }
+    return null;
+  }
+  if (!hasValidId) {
+    return errorResponse(null, INVALID_REQUEST, "Invalid Request: id must be a string or number");
+  }
+
+  return handleMcpRequest(envelope as unknown as McpRequest, context);
+}
+
+// MCP Request Handler
+async function handleMcpRequest(
+  request: McpRequest,
+  context: RequestContext
+): Promise<McpResponse> {
+  const { id, method, params } = request;
+
+  try {
+    switch (method) {
+      case "initialize":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
+            serverInfo: {
+              name: "cua-mcp-server",
+              version: "2.0.0",
+              description:
+                "Agentic CUA MCP Server - Autonomous desktop automation with vision AI",
+            },
+            capabilities: {
+              tools: {},
+              resources: {},
+              prompts: {},
+            },
+          },
+        };
+
+      case "tools/list":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            tools: TOOLS,
+          },
+        };
+
+      case "tools/call": {
+        const toolName = params?.name as string;
+        const toolArgs = (params?.arguments || {}) as Record<string, unknown>;
+
+        if (!toolName) {
+          return {
+            jsonrpc: "2.0",
+            id,
+            error: {
+              code: -32602,
+              message: "Missing tool name",
+            },
+          };
+        }
+        if (!TOOLS.some((tool) => tool.name === toolName)) {
+          return errorResponse(id, INVALID_PARAMS, `Unknown tool: ${toolName}`);
+        }
+
+        // Errors thrown while running a tool (e.g. CUA API failures) are
+        // reported as tool failures rather than protocol errors
+        let result: unknown;
+        try {
+          result = await executeTool(toolName, toolArgs, context);
+        } catch (err) {
+          result = {
+            success: false,
+            error: err instanceof Error ? err.message : String(err),
+          };
+        }
+
+        // All results are returned as text (no images in agentic mode),
+        // with the same object as structuredContent for programmatic use
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+            structuredContent: result,
+            isError: isToolFailure(result),
+          },
+        };
+      }
+
+      case "resources/list": {
+        const cursor =
+          typeof params?.cursor === "string" ? params.cursor : undefined;
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: await listTaskResources(getTenantId(context.cuaApiKey), cursor),
+        };
+      }
+
+      case "resources/templates/list":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            resourceTemplates: RESOURCE_TEMPLATES,
+          },
+        };
+
+      case "resources/read": {
+        const uri = params?.uri;
+        if (typeof uri !== "string") {
+          return errorResponse(id, INVALID_PARAMS, "Missing resource uri");
+        }
+        const tenantId = getTenantId(context.cuaApiKey);
+        const resource =
+          (await readScreenshotResource(context.cuaApiKey, uri)) ??
+          (await readReportResource(tenantId, uri)) ??
+          (await readTaskResource(tenantId, uri));
+        if (!resource) {
+          return {
+            jsonrpc: "2.0",
+            id,
+            error: {
+              code: RESOURCE_NOT_FOUND,
+              message: "Resource not found",
+              data: { uri },
+            },
+          };
+        }
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: resource,
+        };
+      }
+
+      case "prompts/list":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            prompts: PROMPTS.map(({ name, description, arguments: args }) => ({
+              name,
+              description,
+              arguments: args,
+            })),
+          },
+        };
+
+      case "prompts/get": {
+        const promptName = params?.name;
+        if (typeof promptName !== "string") {
+          return errorResponse(id, INVALID_PARAMS, "Missing prompt name");
+        }
+        const promptArgs = (params?.arguments || {}) as Record<string, unknown>;
+        try {
+          return {
+            jsonrpc: "2.0",
+            id,
+            result: getPrompt(promptName, promptArgs),
+          };
+        } catch (err) {
+          return errorResponse(
+            id,
+            INVALID_PARAMS,
+            err instanceof Error ? err.message : String(err)
+          );
+        }
+      }
+
+      case "ping":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {},
+        };
+
+      default:
+        return {
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: -32601,
+            message: `Method not found: ${method}`,
+          },
+        };
+    }
+  } catch (error) {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: -32000,
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
+
+// Extract the progress token from a request's _meta, if any
+export function getProgressToken(request: McpRequest): string | number | undefined {
+  const meta = request.params?._meta as { progressToken?: unknown } | undefined;
+  const token = meta?.progressToken;
+  return typeof token === "string" || typeof token === "number"
+    ? token
+    : undefined;
+}
+
+// Build a progress notification for a run_task step
+export function progressNotification(
+  progressToken: string | number,
+  progress: TaskProgress
+): McpNotification {
+  return {
+    jsonrpc: "2.0",
+    method: "notifications/progress",
+    params: {
+      progressToken,
+      progress: progress.current_step,
+      total: progress.max_steps,
+      message: progress.steps_summary.at(-1),
+    },
+  };
+}
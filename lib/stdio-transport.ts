@@ -0,0 +1,110 @@
+/**
+ * Stdio Transport
+ *
+ * Serves MCP over stdin/stdout as newline-delimited JSON-RPC, for clients
+ * that launch the server as a subprocess. Messages are handled
+ * concurrently so control tools (cancel_task, pause_task, ...) stay
+ * responsive while a streaming run_task is in progress.
+ */
+
+import { createInterface } from "node:readline";
+import {
+  handleMcpMessage,
+  errorResponse,
+  getProgressToken,
+  progressNotification,
+  PARSE_ERROR,
+  INVALID_REQUEST,
+  type McpRequest,
+  type McpResponse,
+  type McpNotification,
+  type RequestContext,
+} from "./mcp-server.js";
+
+// Write one JSON-RPC message (or batch) per line
+function writeMessage(message: McpResponse | McpNotification | McpResponse[]): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+// Handle one line of input
+async function handleLine(line: string, context: RequestContext): Promise<void> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(line);
+  } catch {
+    writeMessage(errorResponse(null, PARSE_ERROR, "Parse error: invalid JSON"));
+    return;
+  }
+
+  // JSON-RPC batch: answer every request in one array, omitting notifications
+  if (Array.isArray(payload)) {
+    if (payload.length === 0) {
+      writeMessage(errorResponse(null, INVALID_REQUEST, "Invalid Request: empty batch"));
+      return;
+    }
+    const responses = (
+      await Promise.all(payload.map((message) => handleMcpMessage(message, context)))
+    ).filter((response): response is McpResponse => response !== null);
+    if (responses.length > 0) {
+      writeMessage(responses);
+    }
+    return;
+  }
+
+  // Report run_task steps as progress notifications when asked to
+  const mcpRequest = payload as McpRequest;
+  const progressToken =
+    mcpRequest?.method === "tools/call" && mcpRequest.id !== undefined
+      ? getProgressToken(mcpRequest)
+      : undefined;
+  const response = await handleMcpMessage(
+    payload,
+    progressToken === undefined
+      ? context
+      : {
+          ...context,
+          onTaskProgress: (progress) =>
+            writeMessage(progressNotification(progressToken, progress)),
+        }
+  );
+  if (response) {
+    writeMessage(response);
+  }
+}
+
+/**
+ * Serve MCP over stdio until stdin closes
+ *
+ * stdout carries protocol messages only, so anything else logged through
+ * console.log is redirected to stderr.
+ *
+ * @param context - Tool execution context shared by all messages
+ * @returns Resolves once stdin has closed and in-flight requests have been answered
+ */
+export async function serveStdio(context: RequestContext): Promise<void> {
+  console.log = (...args: unknown[]) => console.error(...args);
+
+  const pending = new Set<Promise<void>>();
+  const input = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  for await (const line of input) {
+    if (!line.trim()) {
+      continue;
+    }
+    const request = handleLine(line, context)
+      .catch((error) => {
+        writeMessage({
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32000,
+            message: error instanceof Error ? error.message : "Internal server error",
+          },
+        });
+      })
+      .finally(() => pending.delete(request));
+    pending.add(request);
+  }
+
+  await Promise.all(pending);
+}
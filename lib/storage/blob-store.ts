@@ -0,0 +1,140 @@
+/**
+ * Vercel Blob Task Store
+ *
+ * Stores documents as blobs at fixed pathnames. Reads resolve the current
+ * URL with head() and bypass the CDN cache, since progress and control
+ * records are overwritten in place.
+ *
+ * The Blob SDK only supports public access, so blob URLs are never handed
+ * to clients and every document is encrypted with AES-256-GCM before
+ * upload. A store cannot be created without a secret.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from "node:crypto";
+import { put, head, list, del } from "@vercel/blob";
+import type { TaskStore, StoreListOptions, StoreListing } from "./types.js";
+
+/**
+ * Stored form of an encrypted document
+ */
+interface EncryptedDocument {
+  encrypted: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function isEncryptedDocument(value: unknown): value is EncryptedDocument {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncryptedDocument).encrypted === "aes-256-gcm"
+  );
+}
+
+export class BlobTaskStore implements TaskStore {
+  private readonly key: Buffer;
+
+  /**
+   * @param secret - Encrypts documents at rest
+   * @throws Error if the secret is empty
+   */
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error("BlobTaskStore requires a storage secret");
+    }
+    this.key = createHash("sha256").update(secret).digest();
+  }
+
+  private encrypt(json: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([cipher.update(json, "utf8"), cipher.final()]);
+    const document: EncryptedDocument = {
+      encrypted: "aes-256-gcm",
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    return JSON.stringify(document);
+  }
+
+  private decrypt(document: EncryptedDocument): string {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      this.key,
+      Buffer.from(document.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(document.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(document.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  async putJson(path: string, value: unknown): Promise<void> {
+    await put(path, this.encrypt(JSON.stringify(value)), {
+      access: "public",
+      addRandomSuffix: false,
+    });
+  }
+
+  // The Blob SDK has no conditional put. Each caller uploads a uniquely
+  // named candidate next to the document; the earliest upload wins.
+  // Candidates are kept so later callers also lose.
+  async createJson(path: string, value: unknown): Promise<boolean> {
+    const candidate = `${path}.${randomUUID()}`;
+    await put(candidate, this.encrypt(JSON.stringify(value)), {
+      access: "public",
+      addRandomSuffix: false,
+    });
+    const { blobs } = await list({ prefix: `${path}.` });
+    const first = blobs.reduce((earliest, blob) => {
+      const difference = blob.uploadedAt.getTime() - earliest.uploadedAt.getTime();
+      return difference < 0 || (difference === 0 && blob.pathname < earliest.pathname)
+        ? blob
+        : earliest;
+    });
+    if (first.pathname !== candidate) {
+      return false;
+    }
+    await this.putJson(path, value);
+    return true;
+  }
+
+  async getJson<T>(path: string): Promise<T | null> {
+    try {
+      const blobInfo = await head(path);
+      const response = await fetch(blobInfo.url, { cache: "no-store" });
+      if (!response.ok) {
+        return null;
+      }
+      // Unencrypted documents are not trusted
+      const stored: unknown = await response.json();
+      return isEncryptedDocument(stored) ? (JSON.parse(this.decrypt(stored)) as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    try {
+      const blobInfo = await head(path);
+      await del(blobInfo.url);
+    } catch {
+      // Already deleted or never written
+    }
+  }
+
+  async list(prefix: string, options: StoreListOptions = {}): Promise<StoreListing> {
+    const page = await list({ prefix, limit: options.limit, cursor: options.cursor });
+    return {
+      objects: page.blobs.map((blob) => ({
+        path: blob.pathname,
+        size: blob.size,
+        uploaded_at: blob.uploadedAt.getTime(),
+      })),
+      ...(page.hasMore && page.cursor ? { cursor: page.cursor } : {}),
+    };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Filesystem Task Store
+ *
+ * Stores each document as a file under a root directory, mirroring the
+ * store path. Writes go to a temporary file that is renamed into place,
+ * so concurrent readers never see a partial document.
+ */
+
+import { randomUUID } from "node:crypto";
+import { link, mkdir, readFile, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import type {
+  TaskStore,
+  StoredObject,
+  StoreListOptions,
+  StoreListing,
+} from "./types.js";
+import { paginate } from "./paginate.js";
+
+export class FsTaskStore implements TaskStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  // Resolve a store path to a file, refusing paths that escape the root
+  private resolvePath(path: string): string {
+    const file = resolve(this.root, path);
+    if (!file.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return file;
+  }
+
+  async putJson(path: string, value: unknown): Promise<void> {
+    const file = this.resolvePath(path);
+    await mkdir(dirname(file), { recursive: true });
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    await writeFile(tempFile, JSON.stringify(value));
+    await rename(tempFile, file);
+  }
+
+  // Hard-linking the finished temporary file fails if the target exists,
+  // so the document appears complete and only once
+  async createJson(path: string, value: unknown): Promise<boolean> {
+    const file = this.resolvePath(path);
+    await mkdir(dirname(file), { recursive: true });
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    await writeFile(tempFile, JSON.stringify(value));
+    try {
+      await link(tempFile, file);
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw err;
+    } finally {
+      await rm(tempFile, { force: true });
+    }
+  }
+
+  async getJson<T>(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(this.resolvePath(path), "utf8")) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await rm(this.resolvePath(path), { force: true });
+  }
+
+  async list(prefix: string, options?: StoreListOptions): Promise<StoreListing> {
+    // Walk the deepest directory the prefix names, then filter by prefix
+    const baseDir = prefix.includes("/")
+      ? prefix.slice(0, prefix.lastIndexOf("/"))
+      : "";
+    const objects: StoredObject[] = [];
+    await this.collect(join(this.root, baseDir), prefix, objects);
+    return paginate(objects, options);
+  }
+
+  private async collect(
+    dir: string,
+    prefix: string,
+    objects: StoredObject[]
+  ): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Nothing stored under this prefix yet
+    }
+    for (const entry of entries) {
+      const file = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await this.collect(file, prefix, objects);
+        continue;
+      }
+      const path = relative(this.root, file).split(sep).join("/");
+      if (!path.startsWith(prefix) || path.endsWith(".tmp")) {
+        continue;
+      }
+      let info;
+      try {
+        info = await stat(file);
+      } catch (err) {
+        // Deleted since readdir (e.g. by a retention sweep)
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          continue;
+        }
+        throw err;
+      }
+      objects.push({ path, size: info.size, uploaded_at: info.mtimeMs });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Task Storage
+ *
+ * Selects the storage backend for task data from configuration:
+ *
+ * - CUA_STORAGE=blob    Vercel Blob (default when BLOB_READ_WRITE_TOKEN is set)
+ * - CUA_STORAGE=fs      Files under CUA_STORAGE_DIR (default otherwise)
+ * - CUA_STORAGE=memory  In-process only, lost on restart
+ *
+ * CUA_STORAGE_SECRET encrypts documents stored in Vercel Blob, and is
+ * required for that backend: blobs are publicly readable by URL.
+ */
+
+import type { TaskStore } from "./types.js";
+import { BlobTaskStore } from "./blob-store.js";
+import { FsTaskStore } from "./fs-store.js";
+import { MemoryTaskStore } from "./memory-store.js";
+
+export type {
+  TaskStore,
+  StoredObject,
+  StoreListing,
+  StoreListOptions,
+} from "./types.js";
+export { BlobTaskStore } from "./blob-store.js";
+export { FsTaskStore } from "./fs-store.js";
+export { MemoryTaskStore } from "./memory-store.js";
+export {
+  getTenantId,
+  tenantPrefix,
+  taskRecordPath,
+  taskArtifactsPrefix,
+  taskEventsPrefix,
+  taskClaimsPrefix,
+  tenantDocumentPath,
+} from "./tenant.js";
+export type { TaskRecordKind } from "./tenant.js";
+
+// Default directory for the filesystem store, relative to the working directory
+export const DEFAULT_STORAGE_DIR = ".cua-data";
+
+let taskStore: TaskStore | undefined;
+
+/**
+ * Create the store named by CUA_STORAGE
+ *
+ * @returns A new store instance
+ */
+export function createTaskStore(): TaskStore {
+  const backend =
+    process.env.CUA_STORAGE || (process.env.BLOB_READ_WRITE_TOKEN ? "blob" : "fs");
+  switch (backend) {
+    case "blob": {
+      const secret = process.env.CUA_STORAGE_SECRET;
+      if (!secret) {
+        throw new Error(
+          "CUA_STORAGE_SECRET must be set to store tasks in Vercel Blob (blobs are publicly readable)"
+        );
+      }
+      return new BlobTaskStore(secret);
+    }
+    case "fs":
+      return new FsTaskStore(process.env.CUA_STORAGE_DIR || DEFAULT_STORAGE_DIR);
+    case "memory":
+      return new MemoryTaskStore();
+    default:
+      throw new Error(
+        `Unknown CUA_STORAGE backend: ${backend} (expected blob, fs or memory)`
+      );
+  }
+}
+
+/**
+ * Get the process-wide task store, creating it on first use
+ */
+export function getTaskStore(): TaskStore {
+  taskStore ??= createTaskStore();
+  return taskStore;
+}
+
+/**
+ * Replace the process-wide task store (e.g. with a MemoryTaskStore in tests)
+ *
+ * @param store - Store to use for all subsequent task data
+ */
+export function setTaskStore(store: TaskStore): void {
+  taskStore = store;
+}
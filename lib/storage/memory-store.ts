@@ -0,0 +1,51 @@
+/**
+ * In-Memory Task Store
+ *
+ * Keeps documents in a Map for the lifetime of the process. Suited to
+ * tests and single-process runs where task data need not survive a restart.
+ */
+
+import type { TaskStore, StoreListOptions, StoreListing } from "./types.js";
+import { paginate } from "./paginate.js";
+
+interface MemoryEntry {
+  // Serialized so callers can't mutate stored documents by reference
+  json: string;
+  uploaded_at: number;
+}
+
+export class MemoryTaskStore implements TaskStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async putJson(path: string, value: unknown): Promise<void> {
+    this.entries.set(path, { json: JSON.stringify(value), uploaded_at: Date.now() });
+  }
+
+  async createJson(path: string, value: unknown): Promise<boolean> {
+    if (this.entries.has(path)) {
+      return false;
+    }
+    await this.putJson(path, value);
+    return true;
+  }
+
+  async getJson<T>(path: string): Promise<T | null> {
+    const entry = this.entries.get(path);
+    return entry ? (JSON.parse(entry.json) as T) : null;
+  }
+
+  async delete(path: string): Promise<void> {
+    this.entries.delete(path);
+  }
+
+  async list(prefix: string, options?: StoreListOptions): Promise<StoreListing> {
+    const objects = [...this.entries]
+      .filter(([path]) => path.startsWith(prefix))
+      .map(([path, entry]) => ({
+        path,
+        size: Buffer.byteLength(entry.json),
+        uploaded_at: entry.uploaded_at,
+      }));
+    return paginate(objects, options);
+  }
+}
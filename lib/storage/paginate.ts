@@ -0,0 +1,31 @@
+/**
+ * Listing helper for stores that hold their index in memory or on disk
+ */
+
+import type { StoredObject, StoreListing, StoreListOptions } from "./types.js";
+
+export const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * Sort objects by path and return the page after the cursor
+ * The cursor is the path of the last object on the previous page.
+ *
+ * @param objects - All objects matching the prefix
+ * @param options - Page size and cursor
+ * @returns One page of objects
+ */
+export function paginate(
+  objects: StoredObject[],
+  options: StoreListOptions = {}
+): StoreListing {
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  const sorted = [...objects].sort((a, b) => (a.path < b.path ? -1 : 1));
+  const remaining = options.cursor
+    ? sorted.filter((object) => object.path > options.cursor!)
+    : sorted;
+  const page = remaining.slice(0, limit);
+  return {
+    objects: page,
+    ...(remaining.length > limit ? { cursor: page[page.length - 1].path } : {}),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Tenant Scoping
+ *
+ * Task records are namespaced by a hash of the caller's CUA API key, so
+ * a task is only visible to callers using the key that started it. The
+ * key itself is never stored.
+ */
+
+import { createHash } from "node:crypto";
+
+// Hex characters of the SHA-256 digest kept in tenant IDs (128 bits)
+const TENANT_ID_LENGTH = 32;
+
+/**
+ * Record kinds stored per task
+ */
+export type TaskRecordKind =
+  | "progress"
+  | "tasks"
+  | "checkpoints"
+  | "control"
+  | "index";
+
+/**
+ * Derive the tenant ID for a CUA API key
+ *
+ * @param cuaApiKey - Caller's CUA API key
+ * @returns Hex-encoded hash prefix identifying the tenant
+ */
+export function getTenantId(cuaApiKey: string): string {
+  return createHash("sha256")
+    .update(cuaApiKey)
+    .digest("hex")
+    .slice(0, TENANT_ID_LENGTH);
+}
+
+/**
+ * Store path prefix for one kind of record within a tenant
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param kind - Record kind
+ * @returns Path prefix ending in a slash
+ */
+export function tenantPrefix(tenantId: string, kind: TaskRecordKind): string {
+  return `tenants/${tenantId}/${kind}/`;
+}
+
+/**
+ * Store path of a task record
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param kind - Record kind
+ * @param taskId - Unique task identifier
+ * @returns Path such as tenants/{tenantId}/progress/{taskId}.json
+ */
+export function taskRecordPath(
+  tenantId: string,
+  kind: TaskRecordKind,
+  taskId: string
+): string {
+  return `${tenantPrefix(tenantId, kind)}${taskId}.json`;
+}
+
+/**
+ * Store path prefix for files produced by a task (e.g. screenshots)
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param taskId - Unique task identifier
+ * @returns Path prefix ending in a slash
+ */
+export function taskArtifactsPrefix(tenantId: string, taskId: string): string {
+  return `tenants/${tenantId}/artifacts/${taskId}/`;
+}
+
+/**
+ * Store path prefix for a task's event log
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param taskId - Unique task identifier
+ * @returns Path prefix ending in a slash
+ */
+export function taskEventsPrefix(tenantId: string, taskId: string): string {
+  return `tenants/${tenantId}/events/${taskId}/`;
+}
+
+/**
+ * Store path prefix for a task's continuation claims
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param taskId - Unique task identifier
+ * @returns Path prefix ending in a slash
+ */
+export function taskClaimsPrefix(tenantId: string, taskId: string): string {
+  return `tenants/${tenantId}/claims/${taskId}/`;
+}
+
+/**
+ * Store path of a tenant-wide document (e.g. retention sweep state)
+ *
+ * @param tenantId - Tenant ID from getTenantId
+ * @param name - Document name
+ * @returns Path such as tenants/{tenantId}/{name}.json
+ */
+export function tenantDocumentPath(tenantId: string, name: string): string {
+  return `tenants/${tenantId}/${name}.json`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Storage Types
+ *
+ * Interface shared by the task storage backends.
+ */
+
+/**
+ * Metadata for a stored document
+ */
+export interface StoredObject {
+  path: string;
+  size: number;
+  uploaded_at: number;
+}
+
+/**
+ * One page of a prefix listing
+ */
+export interface StoreListing {
+  objects: StoredObject[];
+  // Pass back to list() for the next page; absent on the last page
+  cursor?: string;
+}
+
+export interface StoreListOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Key-value store for task data (progress, results, checkpoints, control)
+ *
+ * Paths are slash-separated, e.g. tenants/{tenantId}/progress/{taskId}.json.
+ * Reads must return the latest write: progress and control records are
+ * overwritten in place while other invocations poll them. Documents are
+ * private to the server; stores never expose URLs for them.
+ */
+export interface TaskStore {
+  /**
+   * Write a JSON document, replacing any existing one
+   */
+  putJson(path: string, value: unknown): Promise<void>;
+
+  /**
+   * Write a JSON document only if none exists at path. Atomic: of
+   * concurrent calls for the same path, exactly one succeeds.
+   *
+   * @returns True if this call created the document
+   */
+  createJson(path: string, value: unknown): Promise<boolean>;
+
+  /**
+   * Read a JSON document
+   *
+   * @returns The parsed document, or null if it does not exist
+   */
+  getJson<T>(path: string): Promise<T | null>;
+
+  /**
+   * Delete a document. Missing documents are ignored.
+   */
+  delete(path: string): Promise<void>;
+
+  /**
+   * List documents whose path starts with prefix, in path order
+   */
+  list(prefix: string, options?: StoreListOptions): Promise<StoreListing>;
+}
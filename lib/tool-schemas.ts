@@ -1,20 +1,138 @@
 /**
  * MCP Tool Schemas
  *
- * Tool definitions for the CUA MCP server.
- * 9 tools total: 5 sandbox management + 4 agentic
+ * Tool, resource template and prompt definitions for the CUA MCP server.
+ * 18 tools total: 5 sandbox management + 13 agentic
  */
 
+interface ObjectSchema {
+  type: "object";
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
 interface Tool {
   name: string;
   description: string;
-  inputSchema: {
-    type: "object";
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
+  inputSchema: ObjectSchema;
+  /** Shape of structuredContent in tools/call results */
+  outputSchema: ObjectSchema;
 }
 
+// ==========================================
+// Output Schema Fragments
+// Failures share { success: false, error } and are flagged with isError.
+// ==========================================
+
+const FAILURE_PROPERTIES = {
+  success: {
+    type: "boolean",
+    description: "False when the call failed",
+  },
+  error: {
+    type: "string",
+    description: "Error message when the call failed",
+  },
+};
+
+const SANDBOX_PROPERTIES = {
+  name: { type: "string" },
+  status: {
+    type: "string",
+    enum: ["pending", "running", "stopped", "stopping", "restarting", "deleting"],
+  },
+  host: { type: "string" },
+  api_url: { type: "string" },
+  vnc_url: { type: "string" },
+  os_type: { type: "string" },
+};
+
+const SANDBOX_ACTION_OUTPUT: ObjectSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    status: { type: "string" },
+    ...FAILURE_PROPERTIES,
+  },
+};
+
+const TASK_STATUS = {
+  type: "string",
+  enum: ["running", "paused", "completed", "failed", "timeout", "cancelled"],
+};
+
+const TOKEN_USAGE = {
+  type: "object",
+  description: "Tokens used and estimated cost in USD",
+  properties: {
+    input_tokens: { type: "number" },
+    output_tokens: { type: "number" },
+    cache_creation_input_tokens: { type: "number" },
+    cache_read_input_tokens: { type: "number" },
+    total_tokens: { type: "number" },
+    cost_usd: { type: "number" },
+    requests: { type: "number" },
+    cache_hits: {
+      type: "number",
+      description: "Requests that read part of their prompt from the prompt cache",
+    },
+  },
+};
+
+const TASK_RESULT_PROPERTIES = {
+  task_id: { type: "string" },
+  status: TASK_STATUS,
+  success: { type: "boolean" },
+  summary: { type: "string" },
+  steps: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        step: { type: "number" },
+        action: { type: "string" },
+        reasoning: { type: "string" },
+        coordinates: { type: "array", items: { type: "number" } },
+        result: { type: "string" },
+        success: { type: "boolean" },
+        error: { type: "string" },
+        screenshot: {
+          type: "string",
+          description: "Stored screenshot of the screen before this step (see get_task_screenshot)",
+        },
+      },
+      required: ["step", "action", "success"],
+    },
+  },
+  steps_taken: { type: "number" },
+  duration_ms: { type: "number" },
+  screen_size: {
+    type: "object",
+    properties: { width: { type: "number" }, height: { type: "number" } },
+  },
+  usage: TOKEN_USAGE,
+  verified: {
+    type: "boolean",
+    description: "Verify mode: whether an independent check of the screen confirmed completion",
+  },
+  verification_reasoning: { type: "string" },
+  data: {
+    type: "object",
+    description: "Structured result matching the task's output_schema",
+  },
+  error: { type: "string" },
+};
+
+const TASK_CONTROL_OUTPUT: ObjectSchema = {
+  type: "object",
+  properties: {
+    task_id: { type: "string" },
+    status: { type: "string" },
+    message: { type: "string" },
+    ...FAILURE_PROPERTIES,
+  },
+};
+
 export const TOOLS: Tool[] = [
   // ==========================================
   // Sandbox Management Tools (5)
@@ -27,6 +145,16 @@ export const TOOLS: Tool[] = [
       type: "object",
       properties: {},
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        sandboxes: {
+          type: "array",
+          items: { type: "object", properties: SANDBOX_PROPERTIES },
+        },
+      },
+      required: ["sandboxes"],
+    },
   },
   {
     name: "get_sandbox",
@@ -41,6 +169,14 @@ export const TOOLS: Tool[] = [
       },
       required: ["name"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        ...SANDBOX_PROPERTIES,
+        password: { type: "string" },
+        ...FAILURE_PROPERTIES,
+      },
+    },
   },
   {
     name: "start_sandbox",
@@ -55,6 +191,7 @@ export const TOOLS: Tool[] = [
       },
       required: ["name"],
     },
+    outputSchema: SANDBOX_ACTION_OUTPUT,
   },
   {
     name: "stop_sandbox",
@@ -69,6 +206,7 @@ export const TOOLS: Tool[] = [
       },
       required: ["name"],
     },
+    outputSchema: SANDBOX_ACTION_OUTPUT,
   },
   {
     name: "restart_sandbox",
@@ -83,10 +221,11 @@ export const TOOLS: Tool[] = [
       },
       required: ["name"],
     },
+    outputSchema: SANDBOX_ACTION_OUTPUT,
   },
 
   // ==========================================
-  // Agentic Tools (4)
+  // Agentic Tools (13)
   // ==========================================
   {
     name: "describe_screen",
@@ -113,11 +252,21 @@ export const TOOLS: Tool[] = [
       },
       required: ["sandbox_name"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        description: { type: "string" },
+        focus: { type: "string" },
+        error: { type: "string" },
+      },
+      required: ["success"],
+    },
   },
   {
     name: "run_task",
     description:
-      "Execute a computer task autonomously. The MCP server will control the sandbox, take screenshots, and complete the task using vision AI. Only the result summary is returned - no images. Use this for any desktop automation task.",
+      "Execute a computer task autonomously. The MCP server will control the sandbox, take screenshots, and complete the task using vision AI. Only the result summary is returned - no images. Use this for any desktop automation task. Returns a task_id immediately; if the call includes a progressToken and accepts text/event-stream, the task instead runs to completion while streaming progress notifications.",
     inputSchema: {
       type: "object",
       properties: {
@@ -136,16 +285,59 @@ export const TOOLS: Tool[] = [
         },
         timeout_seconds: {
           type: "number",
-          description: "Maximum time in seconds (default: 750, max: 750)",
+          description:
+            "Maximum time in seconds (default: 750, max: 750; up to 4 hours when the server has resumable tasks enabled)",
+        },
+        max_cost_usd: {
+          type: "number",
+          description:
+            "Fail the task once its estimated model cost exceeds this many US dollars",
+        },
+        max_tokens: {
+          type: "number",
+          description:
+            "Fail the task once it has used this many tokens (input, output and cache)",
+        },
+        verify: {
+          type: "boolean",
+          description:
+            "Check the screen independently before accepting a completion (default: false). If the check fails, the agent is sent back to continue; the result reports verified and the checker's reasoning.",
+        },
+        success_criteria: {
+          type: "string",
+          description:
+            "What must be visible on screen for the task to count as done, used by the completion check. Implies verify.",
+        },
+        output_schema: {
+          type: "object",
+          description:
+            'JSON Schema (type "object") for a structured result. The agent finishes by submitting an object that must validate against it, returned as the result\'s data. Supports type, properties, required, additionalProperties, items, enum, const, anyOf/oneOf/allOf and simple bounds; $ref is not supported.',
+        },
+        capture_screenshots: {
+          type: "boolean",
+          description:
+            "Store the screen before each action and the final screen for debugging (default: false). Retrieve them with get_task_screenshot.",
+        },
+        callback_url: {
+          type: "string",
+          description:
+            "Optional HTTPS URL to POST the final result to when the task finishes. Requests are signed (X-CUA-Signature) with the server's webhook secret and retried with backoff. Delivery status is reported by get_task_progress.",
         },
       },
       required: ["sandbox_name", "task"],
     },
+    outputSchema: {
+      type: "object",
+      properties: {
+        ...TASK_RESULT_PROPERTIES,
+        message: { type: "string" },
+      },
+    },
   },
   {
     name: "get_task_history",
     description:
-      "Retrieve the result of a previously executed task. Use the history_url from run_task response for fastest lookup.",
+      "Retrieve the result of a previously executed task. Only tasks started with the same CUA API key are visible.",
     inputSchema: {
       type: "object",
       properties: {
@@ -153,13 +345,133 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "The task ID returned from run_task",
         },
-        history_url: {
+      },
+      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: TASK_RESULT_PROPERTIES,
+    },
+  },
+  {
+    name: "list_tasks",
+    description:
+      "List tasks started with your CUA API key, newest first. Filter by sandbox, status, start time or text in the task description. Results are paginated; pass next_cursor back as cursor for the next page. With filters, a page may hold fewer tasks than the limit while more remain, so keep paging while next_cursor is present.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sandbox_name: {
+          type: "string",
+          description: "Only tasks run on this sandbox",
+        },
+        status: {
+          ...TASK_STATUS,
+          description:
+            "Only tasks with this status. Paused tasks are listed as 'paused'.",
+        },
+        started_after: {
           type: "string",
+          description: "Only tasks started at or after this ISO 8601 timestamp",
+        },
+        started_before: {
+          type: "string",
+          description: "Only tasks started before this ISO 8601 timestamp",
+        },
+        query: {
+          type: "string",
+          description: "Case-insensitive text to search for in the task description",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum tasks to return (default: 20, max: 100)",
+        },
+        cursor: {
+          type: "string",
+          description: "next_cursor from a previous list_tasks call",
+        },
+      },
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tasks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              task_id: { type: "string" },
+              sandbox_name: { type: "string" },
+              task: { type: "string" },
+              status: TASK_STATUS,
+              started_at: { type: "number" },
+              updated_at: { type: "number" },
+              finished_at: { type: "number" },
+              steps_taken: { type: "number" },
+              success: { type: "boolean" },
+              summary: { type: "string" },
+            },
+            required: ["task_id", "sandbox_name", "task", "status", "started_at"],
+          },
+        },
+        next_cursor: {
+          type: "string",
+          description: "Present when more tasks match",
+        },
+        ...FAILURE_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "purge_tasks",
+    description:
+      "Delete stored data (progress, results, screenshots) for your finished tasks that are past the server's retention policy, or older than older_than_days. Running and paused tasks are never purged. Use dry_run to preview. Also reports the last automatic retention sweep.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["completed", "failed", "timeout", "cancelled"],
+          description: "Only purge tasks that finished with this status",
+        },
+        older_than_days: {
+          type: "number",
           description:
-            "The history_url returned from run_task (preferred for faster lookup)",
+            "Purge finished tasks older than this many days, instead of applying the retention policy",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "List what would be removed without deleting anything (default: false)",
         },
       },
-      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        purged_at: { type: "number" },
+        dry_run: { type: "boolean" },
+        policy: {
+          type: "object",
+          description: "Retention days by final status; null keeps tasks forever",
+        },
+        removed: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              task_id: { type: "string" },
+              status: TASK_STATUS,
+              finished_at: { type: "number" },
+              artifacts_deleted: { type: "number" },
+            },
+            required: ["task_id", "status", "finished_at"],
+          },
+        },
+        last_sweep: {
+          type: "object",
+          description: "Report of the last automatic sweep, in the same shape",
+        },
+        ...FAILURE_PROPERTIES,
+      },
     },
   },
   {
@@ -173,13 +485,450 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "The task ID returned from run_task",
         },
-        progress_url: {
+      },
+      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string" },
+        status: {
           type: "string",
-          description:
-            "The progress_url returned from run_task (preferred for faster lookup)",
+          description: "Task status, or 'not_found' / 'error'",
+        },
+        progress: {
+          type: "object",
+          description: "Present while the task is running or paused",
+          properties: {
+            current_step: { type: "number" },
+            max_steps: { type: "number" },
+            elapsed_ms: { type: "number" },
+            timeout_seconds: { type: "number" },
+            last_action: { type: "string" },
+            last_reasoning: { type: "string" },
+            steps_summary: { type: "array", items: { type: "string" } },
+            last_event_seq: {
+              type: "number",
+              description: "Sequence number of the latest event (see get_task_events)",
+            },
+          },
+        },
+        result: {
+          type: "object",
+          description: "Present once the task has finished",
+          properties: {
+            success: { type: "boolean" },
+            summary: { type: "string" },
+            total_steps: { type: "number" },
+            duration_ms: { type: "number" },
+            verified: { type: "boolean" },
+            verification_reasoning: { type: "string" },
+            data: { type: "object" },
+            error: { type: "string" },
+          },
+        },
+        usage: TOKEN_USAGE,
+        budget: {
+          type: "object",
+          description: "Spending limits from run_task",
+          properties: {
+            max_cost_usd: { type: "number" },
+            max_tokens: { type: "number" },
+          },
+        },
+        callback: {
+          type: "object",
+          description: "Completion callback delivery, when run_task was given a callback_url",
+          properties: {
+            url: { type: "string" },
+            status: { type: "string", enum: ["pending", "delivered", "failed"] },
+            attempts: { type: "number" },
+            last_attempt_at: { type: "number" },
+            response_status: { type: "number" },
+            error: { type: "string" },
+          },
+        },
+        error: { type: "string" },
+      },
+      required: ["task_id", "status"],
+    },
+  },
+  {
+    name: "get_task_events",
+    description:
+      "Read a task's event log: every reasoning block, action, tool result, operator message, status change, error and per-request token usage, in order. Pass the last_seq from the previous call as after_seq to tail a running task incrementally.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+        after_seq: {
+          type: "number",
+          description: "Only return events with a greater sequence number (default: 0, the whole log)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum events to return (default: 100, max: 500)",
+        },
+      },
+      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        task_id: { type: "string" },
+        status: {
+          type: "string",
+          description: "Task status, or 'not_found' / 'error'",
+        },
+        events: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              seq: { type: "number" },
+              timestamp: { type: "number" },
+              type: {
+                type: "string",
+                enum: ["reasoning", "action", "tool_result", "message", "status", "error", "usage", "memory", "verification"],
+              },
+              step: { type: "number" },
+              action: { type: "string" },
+              input: { type: "object" },
+              text: { type: "string" },
+              success: { type: "boolean" },
+              status: TASK_STATUS,
+              usage: TOKEN_USAGE,
+            },
+            required: ["seq", "timestamp", "type"],
+          },
+        },
+        last_seq: {
+          type: "number",
+          description: "Sequence number of the last returned event; pass as after_seq to continue",
+        },
+        has_more: { type: "boolean" },
+        error: { type: "string" },
+      },
+      required: ["task_id", "status", "events"],
+    },
+  },
+  {
+    name: "get_task_screenshot",
+    description:
+      "Get a short-lived reference to a screenshot stored by a task started with capture_screenshots. Returns a cua:// URI to read with resources/read within 5 minutes; images are never included in tool results. Without step, returns the final screen (or the latest step while the task runs).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+        step: {
+          type: "number",
+          description: "Step number whose preceding screen to return (see available_steps)",
+        },
+      },
+      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        task_id: { type: "string" },
+        screenshot: {
+          type: "string",
+          description: "'step-{n}' for the screen before step n, or 'final'",
+        },
+        step: { type: "number" },
+        captured_at: { type: "number" },
+        uri: { type: "string", description: "Signed resource URI for resources/read" },
+        expires_at: { type: "number" },
+        available_steps: { type: "array", items: { type: "number" } },
+        message: { type: "string" },
+        error: { type: "string" },
+      },
+      required: ["success"],
+    },
+  },
+  {
+    name: "generate_task_report",
+    description:
+      "Build a human-readable replay report for a finished task: the task, a timeline of steps with reasoning, results and errors, and the final summary. The HTML report is self-contained, with captured screenshots embedded and click coordinates marked on them. The report is stored with the task and returned as a cua:// resource URI; Markdown reports are also returned inline.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+        format: {
+          type: "string",
+          enum: ["html", "markdown"],
+          description: "Report format (default: html)",
+        },
+      },
+      required: ["task_id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        task_id: { type: "string" },
+        format: { type: "string", enum: ["html", "markdown"] },
+        uri: { type: "string", description: "Resource URI for resources/read" },
+        mime_type: { type: "string" },
+        size: { type: "number", description: "Report length in characters" },
+        generated_at: { type: "number" },
+        content: { type: "string", description: "The report (Markdown only)" },
+        error: { type: "string" },
+      },
+      required: ["success"],
+    },
+  },
+  {
+    name: "cancel_task",
+    description:
+      "Cancel a running task. The agent stops before its next action, releases any held keys or mouse buttons, and the task finishes with status 'cancelled'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+        reason: {
+          type: "string",
+          description: "Optional reason for cancelling, recorded with the request",
+        },
+      },
+      required: ["task_id"],
+    },
+    outputSchema: TASK_CONTROL_OUTPUT,
+  },
+  {
+    name: "pause_task",
+    description:
+      "Pause a running task. The agent finishes its current step, then idles without taking actions until resume_task or cancel_task is called. Time spent paused counts toward the task timeout.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+      },
+      required: ["task_id"],
+    },
+    outputSchema: TASK_CONTROL_OUTPUT,
+  },
+  {
+    name: "resume_task",
+    description: "Resume a task previously paused with pause_task.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
         },
       },
       required: ["task_id"],
     },
+    outputSchema: TASK_CONTROL_OUTPUT,
+  },
+  {
+    name: "send_task_message",
+    description:
+      "Send an instruction or hint to a running task (e.g., 'The password is on the sticky note'). The message is added to the agent's conversation before its next step and appears in the task's steps.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "The task ID returned from run_task",
+        },
+        message: {
+          type: "string",
+          description: "The message to deliver to the agent (max 4000 characters)",
+        },
+      },
+      required: ["task_id", "message"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        ...TASK_CONTROL_OUTPUT.properties,
+        messages_queued: { type: "number" },
+      },
+    },
+  },
+];
+
+// ==========================================
+// Resource Templates
+// ==========================================
+
+interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "cua://tasks/{task_id}",
+    name: "Task history",
+    description:
+      "Full result of a finished task: status, summary, and every step with its reasoning",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "cua://tasks/{task_id}/steps/{n}",
+    name: "Task step",
+    description: "A single step (1-based) from a finished task's history",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "cua://tasks/{task_id}/report.html",
+    name: "Task report (HTML)",
+    description: "Self-contained HTML replay report, once built with generate_task_report",
+    mimeType: "text/html",
+  },
+  {
+    uriTemplate: "cua://tasks/{task_id}/report.md",
+    name: "Task report (Markdown)",
+    description: "Markdown replay report, once built with generate_task_report",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "cua://tasks/{task_id}/screenshots/{name}",
+    name: "Task screenshot",
+    description:
+      "A screenshot stored with capture_screenshots. Only readable through the signed, expiring URI returned by get_task_screenshot",
+    mimeType: "image/png",
+  },
+];
+
+// ==========================================
+// Prompts
+// Each prompt expands into a run_task call.
+// ==========================================
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface Prompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Build the run_task `task` text from validated arguments */
+  buildTask: (args: Record<string, string>) => string;
+}
+
+const SANDBOX_NAME_ARGUMENT: PromptArgument = {
+  name: "sandbox_name",
+  description: "The sandbox to run the task on",
+  required: true,
+};
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "login_to_web_app",
+    description:
+      "Start signing in to a web application in the sandbox's browser, stopping at the password field. " +
+      "Passwords are never taken as arguments: task text is stored with the task and searchable.",
+    arguments: [
+      SANDBOX_NAME_ARGUMENT,
+      {
+        name: "url",
+        description: "Login page URL (e.g., https://app.example.com/login)",
+        required: true,
+      },
+      {
+        name: "username",
+        description: "Username or email to sign in with",
+        required: true,
+      },
+    ],
+    buildTask: (args) =>
+      [
+        `Open a web browser and navigate to ${args.url}.`,
+        `Fill in the username "${args.username}" (continue to the next page if the form asks for the username first).`,
+        "Then click the password field and stop: do not type a password or submit the form. Report TASK_COMPLETE; the operator enters the password.",
+        "If a cookie or consent banner blocks the form, dismiss it first. If the page shows an error, report it.",
+      ].join(" "),
+  },
+  {
+    name: "fill_form_from_json",
+    description:
+      "Fill in a form field by field from a JSON object, optionally submitting it",
+    arguments: [
+      SANDBOX_NAME_ARGUMENT,
+      {
+        name: "form",
+        description:
+          "Where the form is: a URL, or a description of the open window (e.g., 'the New Contact dialog')",
+        required: true,
+      },
+      {
+        name: "data",
+        description:
+          'JSON object mapping field labels to values (e.g., {"First name": "Ada", "Country": "UK"})',
+        required: true,
+      },
+      {
+        name: "submit",
+        description: "'true' to submit the form after filling it (default: 'false')",
+      },
+    ],
+    buildTask: (args) => {
+      const data: unknown = JSON.parse(args.data);
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new Error("data must be a JSON object");
+      }
+      const fields = Object.entries(data)
+        .map(([label, value]) => `- ${label}: ${String(value)}`)
+        .join("\n");
+      const location = /^https?:\/\//.test(args.form)
+        ? `Open a web browser and navigate to ${args.form}.`
+        : `Go to ${args.form}.`;
+      const finish =
+        args.submit === "true"
+          ? "Then submit the form and confirm it was accepted."
+          : "Do not submit the form.";
+      return `${location} Fill in the form fields with exactly these values, matching fields by their labels:\n${fields}\n${finish} If a field cannot be found, report which one.`;
+    },
+  },
+  {
+    name: "verify_page_shows_text",
+    description:
+      "Check that a page or window shows the expected text, without changing anything",
+    arguments: [
+      SANDBOX_NAME_ARGUMENT,
+      {
+        name: "text",
+        description: "Text that should be visible",
+        required: true,
+      },
+      {
+        name: "url",
+        description: "Optional URL to open first; otherwise the current screen is checked",
+      },
+    ],
+    buildTask: (args) =>
+      [
+        args.url
+          ? `Open a web browser and navigate to ${args.url}.`
+          : "Look at the current screen.",
+        `Check whether the text "${args.text}" is visible. Scroll if needed, but do not click buttons, type, or change anything.`,
+        "Report TASK_COMPLETE if the text is visible, quoting where it appears. Report TASK_FAILED if it is not.",
+      ].join(" "),
   },
 ];
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CONTINUATION_INVOCATION_HEADER,
+  CONTINUATION_SIGNATURE_HEADER,
+  CONTINUATION_TASK_HEADER,
+  isContinuationEnabled,
+  scheduleContinuation,
+  signContinuation,
+  verifyContinuation,
+} from "../../lib/agent/continuation.js";
+
+const TASK_ID = "task_1700000000000_abc1234";
+
+beforeEach(() => {
+  vi.stubEnv("CUA_CONTINUATION_SECRET", "test-secret");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("signContinuation / verifyContinuation", () => {
+  it("accepts its own signature", () => {
+    expect(verifyContinuation(TASK_ID, 2, signContinuation(TASK_ID, 2))).toBe(true);
+  });
+
+  it("binds the signature to the task and invocation", () => {
+    const signature = signContinuation(TASK_ID, 2);
+    expect(verifyContinuation(TASK_ID, 3, signature)).toBe(false);
+    expect(verifyContinuation("task_1700000000000_other00", 2, signature)).toBe(false);
+  });
+
+  it("rejects malformed signatures", () => {
+    expect(verifyContinuation(TASK_ID, 2, "")).toBe(false);
+    expect(verifyContinuation(TASK_ID, 2, "not-hex")).toBe(false);
+    expect(verifyContinuation(TASK_ID, 2, signContinuation(TASK_ID, 2).slice(2))).toBe(false);
+  });
+
+  it("rejects signatures made with another secret", () => {
+    const signature = signContinuation(TASK_ID, 2);
+    vi.stubEnv("CUA_CONTINUATION_SECRET", "other-secret");
+    expect(verifyContinuation(TASK_ID, 2, signature)).toBe(false);
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    const signature = signContinuation(TASK_ID, 2);
+    vi.stubEnv("CUA_CONTINUATION_SECRET", "");
+    expect(isContinuationEnabled()).toBe(false);
+    expect(verifyContinuation(TASK_ID, 2, signature)).toBe(false);
+  });
+});
+
+describe("scheduleContinuation", () => {
+  it("posts a signed request to the MCP endpoint", async () => {
+    const fetchMock = vi.fn(async () => new Response("{}", { status: 202 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await scheduleContinuation("https://cua.example.com", TASK_ID, 2, "cua-key");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe("https://cua.example.com/mcp");
+    expect(headers["X-CUA-API-Key"]).toBe("cua-key");
+    expect(headers[CONTINUATION_TASK_HEADER]).toBe(TASK_ID);
+    expect(headers[CONTINUATION_INVOCATION_HEADER]).toBe("2");
+    expect(verifyContinuation(TASK_ID, 2, headers[CONTINUATION_SIGNATURE_HEADER])).toBe(true);
+  });
+
+  it("retries and then reports the last failure", async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = vi.fn(async () => new Response("busy", { status: 503 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const scheduled = scheduleContinuation("https://cua.example.com", TASK_ID, 2, "cua-key", 1);
+      const failure = expect(scheduled).rejects.toThrow("Continuation request failed (503): busy");
+      await vi.runAllTimersAsync();
+      await failure;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { checkOutputSchema, validateJson } from "../../lib/agent/json-schema.js";
+
+const objectWith = (properties: Record<string, unknown>) => ({ type: "object", properties });
+
+describe("checkOutputSchema", () => {
+  it("accepts object schemas using supported keywords", () => {
+    expect(
+      checkOutputSchema({
+        type: "object",
+        title: "Price",
+        properties: {
+          price: { type: "number", minimum: 0 },
+          tags: { type: "array", items: { type: "string", maxLength: 20 }, maxItems: 5 },
+          currency: { enum: ["USD", "EUR"] },
+          note: { anyOf: [{ type: "string" }, { type: "null" }] },
+        },
+        required: ["price"],
+        additionalProperties: false,
+      })
+    ).toBeNull();
+  });
+
+  it("requires an object schema", () => {
+    expect(checkOutputSchema("nope")).toBe("output_schema must be a JSON Schema object");
+    expect(checkOutputSchema({ type: "string" })).toBe(
+      'output_schema must describe an object (type: "object")'
+    );
+  });
+
+  it("rejects unsupported keywords and unknown types", () => {
+    expect(checkOutputSchema(objectWith({ a: { $ref: "#/defs/a" } }))).toBe(
+      "output_schema.properties.a.$ref is not supported"
+    );
+    expect(checkOutputSchema(objectWith({ a: { type: "date" } }))).toBe(
+      'output_schema.properties.a.type has unknown type "date"'
+    );
+    expect(checkOutputSchema({ type: "object", anyOf: [] })).toBe(
+      "output_schema.anyOf must be a non-empty array of schemas"
+    );
+  });
+
+  it("rejects invalid and overlong patterns", () => {
+    expect(checkOutputSchema(objectWith({ a: { type: "string", pattern: "(" } }))).toBe(
+      "output_schema.properties.a.pattern is not a valid regular expression"
+    );
+    expect(
+      checkOutputSchema(objectWith({ a: { type: "string", pattern: "a".repeat(201) } }))
+    ).toBe("output_schema.properties.a.pattern exceeds 200 characters");
+  });
+
+  it("rejects patterns the linear-time matcher does not support", () => {
+    expect(checkOutputSchema(objectWith({ a: { type: "string", pattern: "(\\d)\\1" } }))).toBe(
+      "output_schema.properties.a.pattern is not supported: backreferences are not supported"
+    );
+    expect(checkOutputSchema(objectWith({ a: { type: "string", pattern: "a(?!b)" } }))).toBe(
+      "output_schema.properties.a.pattern is not supported: lookahead and lookbehind are not supported"
+    );
+    expect(checkOutputSchema(objectWith({ a: { type: "string", pattern: "x{5000}" } }))).toBe(
+      "output_schema.properties.a.pattern is not supported: pattern is too complex"
+    );
+  });
+
+  it("accepts ordinary and backtracking-prone patterns", () => {
+    for (const pattern of ["^\\d{3}-\\d{4}$", "^[a-z]+(-[a-z]+)*$", "^(a|a)*b$", "(a+)+$"]) {
+      expect(checkOutputSchema(objectWith({ a: { type: "string", pattern } }))).toBeNull();
+    }
+  });
+});
+
+describe("validateJson", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 0 },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["name", "count"],
+    additionalProperties: false,
+  };
+
+  it("returns no errors for a valid value", () => {
+    expect(validateJson({ name: "a", count: 2, tags: ["x"] }, schema)).toEqual([]);
+  });
+
+  it("reports missing, mistyped and extra properties with their paths", () => {
+    expect(validateJson({ count: 1.5, tags: [1], extra: true }, schema)).toEqual([
+      "$.name is required",
+      "$.count must be integer (got number)",
+      "$.tags[0] must be string (got number)",
+      "$.extra is not allowed",
+    ]);
+  });
+
+  it("checks bounds, enums and constants", () => {
+    expect(validateJson(-1, { type: "number", minimum: 0 })).toEqual(["$ must be >= 0"]);
+    expect(validateJson(5, { exclusiveMaximum: 5 })).toEqual(["$ must be < 5"]);
+    expect(validateJson("", { type: "string", minLength: 1 })).toEqual([
+      "$ must be at least 1 characters",
+    ]);
+    expect(validateJson([1, 2, 3], { maxItems: 2 })).toEqual(["$ must have at most 2 items"]);
+    expect(validateJson("c", { enum: ["a", "b"] })).toEqual(['$ must be one of "a", "b"']);
+    expect(validateJson({ a: 1 }, { const: { a: 1 } })).toEqual([]);
+  });
+
+  it("counts characters rather than UTF-16 code units", () => {
+    expect(validateJson("😀", { type: "string", maxLength: 1 })).toEqual([]);
+  });
+
+  it("applies combinators", () => {
+    const nullable = { anyOf: [{ type: "string" }, { type: "null" }] };
+    expect(validateJson(null, nullable)).toEqual([]);
+    expect(validateJson(1, nullable)).toEqual(["$ must match at least one of the anyOf schemas"]);
+    expect(validateJson(1, { oneOf: [{ type: "number" }, { type: "integer" }] })).toEqual([
+      "$ must match exactly one of the oneOf schemas (matched 2)",
+    ]);
+    expect(validateJson(1, { allOf: [{ minimum: 0 }, { maximum: 0 }] })).toEqual(["$ must be <= 0"]);
+  });
+
+  it("matches patterns and refuses overlong strings", () => {
+    const pattern = { type: "string", pattern: "^a+$" };
+    expect(validateJson("aaa", pattern)).toEqual([]);
+    expect(validateJson("b", pattern)).toEqual(["$ must match ^a+$"]);
+    expect(validateJson("a".repeat(1001), pattern)).toEqual([
+      "$ must be at most 1000 characters to be checked against its pattern",
+    ]);
+  });
+
+  it("checks backtracking-prone patterns quickly", () => {
+    const started = Date.now();
+    const schema = { type: "string", pattern: "^(a|a)*b$" };
+    expect(validateJson("a".repeat(1000), schema)).toEqual(["$ must match ^(a|a)*b$"]);
+    expect(validateJson(`${"a".repeat(999)}b`, schema)).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { renderTranscript } from "../../lib/agent/memory.js";
+
+describe("renderTranscript", () => {
+  it("renders reasoning, actions and results one per line", () => {
+    expect(
+      renderTranscript([
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Opening the menu" },
+            { type: "tool_use", id: "t1", name: "computer", input: { action: "key", text: "ctrl+l" } },
+          ],
+        },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "Pressed ctrl+l" }] },
+      ])
+    ).toContain('Agent: Opening the menu\nAction: Key press "ctrl+l"');
+  });
+
+  it("records only the length of typed text", () => {
+    const transcript = renderTranscript([
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "t1", name: "computer", input: { action: "type", text: "hunter2" } },
+        ],
+      },
+    ]);
+    expect(transcript).toBe("Action: Type text (7 characters)");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { compilePattern } from "../../lib/agent/pattern.js";
+
+// Patterns checked against RegExp on the same inputs
+const CASES: [string, string[]][] = [
+  ["abc", ["abc", "xabcx", "ab", ""]],
+  ["^abc$", ["abc", "abcd", " abc"]],
+  ["^a|b$", ["ax", "xb", "xax"]],
+  ["^(?:ab|cd)+$", ["abcdab", "abc", "", "cdcd"]],
+  ["^(a|b)*c$", ["ababc", "c", "abca"]],
+  ["^a{2,3}$", ["a", "aa", "aaa", "aaaa"]],
+  ["^a{2}b{1,}c{0,1}$", ["aab", "aabbbc", "aabcc", "ab"]],
+  ["^a+?b*?$", ["a", "aab", "b"]],
+  ["^[a-z]+(-[a-z]+)*$", ["kebab-case-slug", "-bad", "bad-", "ok"]],
+  ["^[^0-9]*$", ["abc", "a1c", ""]],
+  ["^[\\]\\-]+$", ["]-]", "a"]],
+  ["^\\d{3}-\\d{4}$", ["555-1234", "55-1234", "555-12345"]],
+  ["^\\w+@\\w+\\.\\w{2,}$", ["me@example.com", "me@example.c", "me@@x.com"]],
+  ["\\s\\S", [" a", "  ", "a"]],
+  ["\\bcat\\b", ["a cat sat", "concat", "cat"]],
+  ["\\Bcat", ["concat", "cat"]],
+  ["^.$", ["a", "😀", "\n", "ab"]],
+  ["^\\p{Lu}\\p{Ll}+$", ["Élan", "élan"]],
+  ["^\\u{1F600}\\x41\\u0042$", ["😀AB", "😀AC"]],
+  ["^(?<year>\\d{4})-(?:\\d\\d)$", ["2024-01", "24-01"]],
+  ["^(a*)*b$", ["aaab", "aaa", "b"]],
+  ["^()$|x", ["", "x", "y"]],
+  ["[]", ["a", ""]],
+];
+
+describe("compilePattern", () => {
+  for (const [pattern, inputs] of CASES) {
+    it(`matches like RegExp: /${pattern}/u`, () => {
+      const compiled = compilePattern(pattern);
+      const native = new RegExp(pattern, "u");
+      for (const input of inputs) {
+        expect(compiled.test(input), JSON.stringify(input)).toBe(native.test(input));
+      }
+    });
+  }
+
+  it("rejects backreferences and lookaround", () => {
+    expect(() => compilePattern("(a)\\1")).toThrow("backreferences are not supported");
+    expect(() => compilePattern("(?<x>a)\\k<x>")).toThrow("backreferences are not supported");
+    expect(() => compilePattern("a(?=b)")).toThrow("lookahead and lookbehind are not supported");
+    expect(() => compilePattern("(?<!a)b")).toThrow("lookahead and lookbehind are not supported");
+  });
+
+  it("rejects patterns that compile to too many states", () => {
+    expect(() => compilePattern("(a{100}){100}")).toThrow("pattern is too complex");
+  });
+
+  it("runs backtracking-prone patterns in linear time", () => {
+    const input = "a".repeat(1000);
+    const started = Date.now();
+    for (const pattern of ["^(a|a)*b$", "^(a+)+$", "^(\\w|\\d)+!$", "^\\w*\\w*\\w*\\w*x$", "(a?){30}a{30}$"]) {
+      expect(compilePattern(pattern).test(`${input}!`)).toBe(pattern === "^(\\w|\\d)+!$");
+    }
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,106 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, resizeImage, resizePng, type RawImage } from "../../lib/agent/png.js";
+
+// Deterministic pixels with variation in every channel
+function gradient(width: number, height: number, channels: 3 | 4): RawImage {
+  const data = new Uint8Array(width * height * channels);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * 37 + Math.floor(i / channels) * 11) & 0xff;
+  }
+  return { width, height, channels, data };
+}
+
+// A PNG with the given color type and pre-filtered scanlines (the decoder
+// does not check chunk CRCs)
+function rawPng(
+  width: number,
+  height: number,
+  colorType: number,
+  scanlines: number[],
+  palette?: number[]
+): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, "latin1"), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk("IHDR", header),
+    ...(palette ? [chunk("PLTE", Buffer.from(palette))] : []),
+    chunk("IDAT", deflateSync(Buffer.from(scanlines))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("encodePng / decodePng", () => {
+  it("round-trips RGB and RGBA images", () => {
+    for (const channels of [3, 4] as const) {
+      const image = gradient(17, 9, channels);
+      const decoded = decodePng(encodePng(image));
+      expect(decoded.width).toBe(17);
+      expect(decoded.height).toBe(9);
+      expect(decoded.channels).toBe(channels);
+      expect(Buffer.from(decoded.data).equals(Buffer.from(image.data))).toBe(true);
+    }
+  });
+
+  it("expands grayscale, grayscale with alpha and palette images", () => {
+    expect(decodePng(rawPng(2, 1, 0, [0, 10, 20])).data).toEqual(
+      new Uint8Array([10, 10, 10, 20, 20, 20])
+    );
+    expect(decodePng(rawPng(1, 1, 4, [0, 50, 128])).data).toEqual(
+      new Uint8Array([50, 50, 50, 128])
+    );
+    expect(decodePng(rawPng(2, 1, 3, [0, 1, 0], [1, 2, 3, 4, 5, 6])).data).toEqual(
+      new Uint8Array([4, 5, 6, 1, 2, 3])
+    );
+  });
+
+  it("undoes the Average and Paeth filters", () => {
+    // Three gray rows of [10, 20]: unfiltered, Average-filtered, Paeth-filtered
+    const image = decodePng(rawPng(2, 3, 0, [0, 10, 20, 3, 5, 5, 4, 0, 0]));
+    expect([...image.data].filter((_, i) => i % 3 === 0)).toEqual([10, 20, 10, 20, 10, 20]);
+  });
+
+  it("rejects files that are not supported PNGs", () => {
+    expect(() => decodePng(Buffer.from("GIF89a"))).toThrow("Not a PNG image");
+    const sixteenBit = rawPng(1, 1, 0, [0, 0, 0]);
+    sixteenBit[8 + 8 + 8] = 16;
+    expect(() => decodePng(sixteenBit)).toThrow(/Unsupported PNG format/);
+    expect(() => decodePng(rawPng(1, 1, 3, [0, 0]))).toThrow("PNG palette missing");
+    expect(() => decodePng(rawPng(4, 4, 0, [0, 1]))).toThrow("Truncated PNG image data");
+  });
+});
+
+describe("resizeImage", () => {
+  it("averages the source pixels each target pixel covers", () => {
+    const image: RawImage = {
+      width: 2,
+      height: 2,
+      channels: 3,
+      data: new Uint8Array([0, 0, 0, 100, 100, 100, 200, 200, 200, 100, 100, 100]),
+    };
+    expect(resizeImage(image, 1, 1).data).toEqual(new Uint8Array([100, 100, 100]));
+  });
+
+  it("handles sizes that do not divide evenly", () => {
+    const resized = resizeImage(gradient(1920, 1080, 3), 1280, 720);
+    expect(resized.width).toBe(1280);
+    expect(resized.height).toBe(720);
+    expect(resized.data.length).toBe(1280 * 720 * 3);
+  });
+});
+
+describe("resizePng", () => {
+  it("returns a PNG of the requested size", () => {
+    const resized = decodePng(resizePng(encodePng(gradient(30, 20, 4)), 15, 10));
+    expect([resized.width, resized.height, resized.channels]).toEqual([15, 10, 4]);
+  });
+});
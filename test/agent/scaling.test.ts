@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { encodePng, decodePng } from "../../lib/agent/png.js";
+import { getScaledSize, scaleScreenshot, toScreenCoordinates } from "../../lib/agent/scaling.js";
+import type { ActionContext } from "../../lib/agent/types.js";
+
+const SCALED: ActionContext = { displayWidth: 1280, displayHeight: 720, screenWidth: 1920, screenHeight: 1080 };
+const UNSCALED: ActionContext = { displayWidth: 1024, displayHeight: 768, screenWidth: 1024, screenHeight: 768 };
+
+describe("getScaledSize", () => {
+  it("scales large screens down keeping the aspect ratio", () => {
+    expect(getScaledSize(1920, 1080)).toEqual({ width: 1280, height: 720 });
+    expect(getScaledSize(1024, 768)).toEqual({ width: 1024, height: 768 });
+  });
+});
+
+describe("toScreenCoordinates", () => {
+  it("maps scaled coordinates back to the screen, clamped to its edge", () => {
+    expect(toScreenCoordinates(640, 360, SCALED)).toEqual([960, 540]);
+    expect(toScreenCoordinates(1280, 720, SCALED)).toEqual([1919, 1079]);
+    expect(toScreenCoordinates(10, 20, UNSCALED)).toEqual([10, 20]);
+  });
+});
+
+describe("scaleScreenshot", () => {
+  it("resizes screenshots to the display size", () => {
+    const png = encodePng({ width: 1920, height: 1080, channels: 3, data: new Uint8Array(1920 * 1080 * 3) });
+    const scaled = decodePng(Buffer.from(scaleScreenshot(png.toString("base64"), SCALED), "base64"));
+    expect([scaled.width, scaled.height]).toEqual([1280, 720]);
+  });
+
+  it("throws rather than sending an image the coordinates do not match", () => {
+    const notPng = Buffer.from("not an image").toString("base64");
+    expect(() => scaleScreenshot(notPng, SCALED)).toThrow(
+      "Failed to scale screenshot to 1280x720: Not a PNG image"
+    );
+    expect(scaleScreenshot(notPng, UNSCALED)).toBe(notPng);
+  });
+});
@@ -0,0 +1,72 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Files that vanish between readdir and stat
+const vanished = vi.hoisted(() => new Set<string>());
+
+vi.mock("node:fs/promises", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("node:fs/promises")>();
+  return {
+    ...fs,
+    stat: async (file: string) => {
+      if ([...vanished].some((name) => file.endsWith(name))) {
+        await fs.rm(file);
+      }
+      return fs.stat(file);
+    },
+  };
+});
+
+import { FsTaskStore } from "../../lib/storage/fs-store.js";
+
+let root: string;
+let store: FsTaskStore;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "cua-store-"));
+  store = new FsTaskStore(root);
+  vanished.clear();
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("FsTaskStore", () => {
+  it("reads back what it writes", async () => {
+    await store.putJson("tenants/t/progress/a.json", { status: "running" });
+    expect(await store.getJson("tenants/t/progress/a.json")).toEqual({ status: "running" });
+    expect(await store.getJson("tenants/t/progress/missing.json")).toBeNull();
+  });
+
+  it("creates a document only once", async () => {
+    expect(await store.createJson("tenants/t/claims/a/2.json", { n: 1 })).toBe(true);
+    expect(await store.createJson("tenants/t/claims/a/2.json", { n: 2 })).toBe(false);
+    expect(await store.getJson("tenants/t/claims/a/2.json")).toEqual({ n: 1 });
+  });
+
+  it("lists documents under a prefix in path order", async () => {
+    await store.putJson("tenants/t/index/b.json", {});
+    await store.putJson("tenants/t/index/a.json", {});
+    await store.putJson("tenants/t/progress/a.json", {});
+    const listing = await store.list("tenants/t/index/");
+    expect(listing.objects.map((o) => o.path)).toEqual([
+      "tenants/t/index/a.json",
+      "tenants/t/index/b.json",
+    ]);
+  });
+
+  it("skips documents deleted while listing", async () => {
+    await store.putJson("tenants/t/index/a.json", {});
+    await store.putJson("tenants/t/index/b.json", {});
+    vanished.add("b.json");
+    const listing = await store.list("tenants/t/index/");
+    expect(listing.objects.map((o) => o.path)).toEqual(["tenants/t/index/a.json"]);
+  });
+
+  it("refuses paths outside its root", async () => {
+    await expect(store.putJson("../escape.json", {})).rejects.toThrow("Invalid storage path");
+  });
+});
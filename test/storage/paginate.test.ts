@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LIST_LIMIT, paginate } from "../../lib/storage/paginate.js";
+import type { StoredObject } from "../../lib/storage/types.js";
+
+const object = (path: string): StoredObject => ({ path, size: 1, uploaded_at: 0 });
+const paths = (objects: StoredObject[]) => objects.map((o) => o.path);
+
+describe("paginate", () => {
+  const objects = ["c.json", "a.json", "e.json", "b.json", "d.json"].map(object);
+
+  it("returns objects in path order without a cursor on the last page", () => {
+    const page = paginate(objects);
+    expect(paths(page.objects)).toEqual(["a.json", "b.json", "c.json", "d.json", "e.json"]);
+    expect(page.cursor).toBeUndefined();
+  });
+
+  it("pages through with the cursor it returns", () => {
+    const first = paginate(objects, { limit: 2 });
+    expect(paths(first.objects)).toEqual(["a.json", "b.json"]);
+    expect(first.cursor).toBe("b.json");
+
+    const second = paginate(objects, { limit: 2, cursor: first.cursor });
+    expect(paths(second.objects)).toEqual(["c.json", "d.json"]);
+
+    const last = paginate(objects, { limit: 2, cursor: second.cursor });
+    expect(paths(last.objects)).toEqual(["e.json"]);
+    expect(last.cursor).toBeUndefined();
+  });
+
+  it("omits the cursor when the page ends exactly at the last object", () => {
+    expect(paginate(objects, { limit: 5 }).cursor).toBeUndefined();
+  });
+
+  it("resumes after a cursor whose object no longer exists", () => {
+    expect(paths(paginate(objects, { cursor: "b.json.old" }).objects)).toEqual([
+      "c.json",
+      "d.json",
+      "e.json",
+    ]);
+  });
+
+  it("limits pages to DEFAULT_LIST_LIMIT by default", () => {
+    const many = Array.from({ length: DEFAULT_LIST_LIMIT + 1 }, (_, i) =>
+      object(`${String(i).padStart(5, "0")}.json`)
+    );
+    const page = paginate(many);
+    expect(page.objects).toHaveLength(DEFAULT_LIST_LIMIT);
+    expect(page.cursor).toBe(many[DEFAULT_LIST_LIMIT - 1].path);
+  });
+});